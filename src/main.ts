@@ -2,24 +2,97 @@
 // A wavetable synthesizer powered by glucose data
 
 import './style.css';
-import { parseLibreViewCSV } from './parser/libreview';
-import { generateAllWavetables } from './synthesis/wavetable';
+import { isSupportedFile, getAcceptedExtensions } from './parser/importers';
+import { loadImportOptions, saveImportOptions, type ImportOptions } from './parser/import-options';
+import {
+  loadMappingProfiles,
+  saveMappingProfiles,
+  storeMappingProfile,
+  findMappingProfile,
+  type ColumnMapping,
+  type ColumnMappingProfile,
+} from './parser/column-mapping';
+import {
+  getImportWorker,
+  ImportCancelledError,
+  ImportMappingRequiredError,
+  type ImportSource,
+  type ImportStage,
+} from './workers/import-client';
+import { buildCustomWindow, customWindowKey } from './parser/time-windows';
+import {
+  loadGlucoseTargets,
+  saveGlucoseTargets,
+  setGlucoseTargets,
+  applyGlucoseTargets,
+  getGlucoseTargets,
+} from './parser/glucose-targets';
+import {
+  loadDisplayUnitPreference,
+  saveDisplayUnitPreference,
+  resolveDisplayUnit,
+  setDisplayUnit,
+} from './parser/display-unit';
+import { exportProjectFile, PROJECT_FILE_EXTENSION, type ProjectExportOptions } from './parser/project-file';
+import { setRelativeTimeline } from './parser/relative-timeline';
+import { generateSyntheticData, getSyntheticDataName, type SyntheticDataOptions } from './parser/synthetic-data';
+import {
+  getDatasetStore,
+  getSourcesSignature,
+  summarizeDataset,
+  loadActiveDatasetId,
+  saveActiveDatasetId,
+} from './storage/dataset-store';
 import { getSynth } from './synthesis/synth-engine';
+import { encodeWavetableWAV, WAV_FILE_EXTENSION } from './synthesis/wav-export';
+import { generateWavetable, generateAllWavetables } from './synthesis/wavetable';
 import { getKeyboardHandler } from './input/keyboard-handler';
 import { getMIDIHandler, MIDIHandler, type MIDIDeviceInfo } from './input/midi-handler';
 import { createPianoKeyboard, PianoKeyboard } from './ui/piano-keyboard';
 import { createSynthControls, SynthControls } from './ui/controls';
 import { createOscillatorMixer, OscillatorMixer } from './ui/oscillator-mixer';
 import { createEffectsPanel } from './ui/effects-panel';
-import type { ParsedLibreViewData } from './types';
+import { createSettingsPanel, SettingsPanel } from './ui/settings-panel';
+import { createImportSummaryPanel, ImportSummaryPanel, hasImportWarnings } from './ui/import-summary';
+import { createColumnMappingWizard, ColumnMappingWizard } from './ui/column-mapping-wizard';
+import { createLibraryPanel, LibraryPanel } from './ui/library-panel';
+import type { DailyGlucoseData, ParsedLibreViewData } from './types';
 
 // Global state
 let glucoseData: ParsedLibreViewData | null = null;
 let pianoKeyboard: PianoKeyboard | null = null;
 let oscillatorMixer: OscillatorMixer | null = null;
 let synthControls: SynthControls | null = null;
+let settingsPanel: SettingsPanel | null = null;
+let importSummaryPanel: ImportSummaryPanel | null = null;
+let columnMappingWizard: ColumnMappingWizard | null = null;
+let libraryPanel: LibraryPanel | null = null;
 let isAudioStarted = false;
 
+// Import state - the loaded files are kept so they can be re-parsed when import options change
+let importOptions: ImportOptions = loadImportOptions();
+let lastImportSources: ImportSource[] = [];
+
+// A dataset restored from the library has no files; re-imports regroup its stored records (plus any
+// files added since, in lastImportSources). This remembers it and the files the entry was imported from.
+let libraryDataset: { data: ParsedLibreViewData; name: string; signature: string } | null = null;
+
+// Generated demo data has no files; it is regenerated from the same seed when import options change
+let syntheticOptions: SyntheticDataOptions | null = null;
+
+// User-picked time ranges, rebuilt as windows whenever the same sources are re-imported
+let customWindows: { start: number; end: number }[] = [];
+
+// Library entry the loaded data is stored as (null for the sample or a deleted dataset)
+let activeDatasetId: number | null = null;
+
+// Glucose unit preference; 'auto' shows values in the loaded file's unit
+let displayUnitPreference = loadDisplayUnitPreference();
+
+// Column mapping state - saved profiles, and the import waiting on the wizard
+let mappingProfiles: ColumnMappingProfile[] = loadMappingProfiles();
+let pendingMapping: { sources: ImportSource[]; sourceIndex: number; isReimport: boolean } | null = null;
+
 // Mobile-specific state
 let mobilePianoKeyboard: PianoKeyboard | null = null;
 let mobileOscillatorMixer: OscillatorMixer | null = null;
@@ -41,6 +114,10 @@ function detectMobile(): boolean {
 async function init(): Promise<void> {
   console.log('Glukoscillator initializing...');
 
+  // Stats, badges and sound mapping read the saved target range
+  setGlucoseTargets(loadGlucoseTargets());
+  setDisplayUnit(resolveDisplayUnit(displayUnitPreference, 'mg/dL'));
+
   // Detect mobile
   isMobile = detectMobile();
   console.log(`Device type: ${isMobile ? 'mobile' : 'desktop'}`);
@@ -48,6 +125,10 @@ async function init(): Promise<void> {
   // Set up shared components
   setupFileLoader();
   setupStartButton();
+  setupSettingsPanel();
+  setupImportSummaryPanel();
+  setupColumnMappingWizard();
+  setupLibraryPanel();
 
   // Initialize desktop UI components
   pianoKeyboard = createPianoKeyboard('piano-keyboard');
@@ -66,6 +147,9 @@ async function init(): Promise<void> {
     mobileSynthControls?.syncFromSynth();
   });
 
+  oscillatorMixer.onCustomWindow(addCustomWindow);
+  oscillatorMixer.onExportWavetable(exportWavetable);
+
   // Initialize mobile UI components
   if (isMobile) {
     setupMobileUI();
@@ -100,8 +184,10 @@ async function init(): Promise<void> {
     }
   }
 
-  // Auto-load sample data on startup
-  await loadSampleData();
+  // Restore the last loaded dataset, or fall back to the sample data
+  if (!(await restoreActiveDataset())) {
+    await loadSampleData();
+  }
 
   console.log('Glukoscillator ready!');
 }
@@ -134,6 +220,9 @@ function setupMobileUI(): void {
     mobileSynthControls?.syncFromSynth();
   });
 
+  mobileOscillatorMixer.onCustomWindow(addCustomWindow);
+  mobileOscillatorMixer.onExportWavetable(exportWavetable);
+
   // Set up mobile tab navigation
   setupMobileTabNavigation();
 
@@ -175,15 +264,21 @@ function setupMobileFileLoader(): void {
 
   if (!mobileFileBtn || !mobileFileInput) return;
 
+  mobileFileInput.accept = getAcceptedExtensions().join(',');
+
   mobileFileBtn.addEventListener('click', (e) => {
     if ((e.target as HTMLElement).closest('input')) return;
+    if (getImportWorker().busy) {
+      getImportWorker().cancel();
+      return;
+    }
     mobileFileInput.click();
   });
 
   mobileFileInput.addEventListener('change', (e) => {
     const files = (e.target as HTMLInputElement).files;
-    if (files && files[0]) {
-      handleFile(files[0]);
+    if (files && files.length > 0) {
+      handleFiles(Array.from(files));
     }
   });
 }
@@ -200,39 +295,101 @@ async function loadSampleData(): Promise<void> {
       return;
     }
     
-    const text = await response.text();
-    glucoseData = parseLibreViewCSV(text);
+    const sources: ImportSource[] = [{ file: await response.blob(), fileName: 'sample-glucose.csv' }];
+    const data = await getImportWorker().importFiles(sources, importOptions);
+    updateImportSummary(data);
     
-    if (glucoseData.days.size === 0) {
+    if (data.days.size === 0) {
       console.warn('No glucose data found in sample file');
       return;
     }
 
-    // Generate wavetables for all days
-    generateAllWavetables(glucoseData.days);
+    lastImportSources = sources;
+    libraryDataset = null;
+    applyGlucoseData(data);
 
-    // Update desktop UI
-    oscillatorMixer?.setData(glucoseData);
-    
-    // Update mobile UI
-    mobileOscillatorMixer?.setData(glucoseData);
-    
-    // Update file loaders to show loaded state
-    updateFileLoaderState(glucoseData.days.size);
-
-    // Auto-assign first day to oscillator 1
-    const dates = Array.from(glucoseData.days.keys()).sort().reverse();
-    if (dates.length > 0) {
-      oscillatorMixer?.setOscillatorDay(0, dates[0]);
-      mobileOscillatorMixer?.setOscillatorDay(0, dates[0]);
-    }
-
-    console.log(`Auto-loaded sample data: ${glucoseData.days.size} days`);
+    console.log(`Auto-loaded sample data: ${data.days.size} days`);
   } catch (error) {
+    // A user file dropped during startup cancels the sample load
+    if (error instanceof ImportCancelledError) return;
     console.warn('Failed to load sample data:', error);
   }
 }
 
+/**
+ * Hand parsed data (wavetables already generated) to the UI
+ * A re-import of the same source keeps the oscillators' current days
+ */
+function applyGlucoseData(data: ParsedLibreViewData, isReimport: boolean = false): void {
+  glucoseData = data;
+
+  // Custom ranges belong to the data they were picked from
+  if (isReimport) {
+    customWindows = customWindows.filter(range => insertCustomWindow(data, range.start, range.end));
+  } else {
+    customWindows = [];
+  }
+
+  // Format numbers in the preferred unit, or the file's own unit
+  setDisplayUnit(resolveDisplayUnit(displayUnitPreference, data.unit));
+  settingsPanel?.refreshDisplayUnit();
+
+  // Update desktop UI
+  oscillatorMixer?.setGapFill(importOptions.gapFill);
+  oscillatorMixer?.setData(data);
+  
+  // Update mobile UI
+  mobileOscillatorMixer?.setGapFill(importOptions.gapFill);
+  mobileOscillatorMixer?.setData(data);
+  
+  // Update file loaders to show loaded state
+  updateFileLoaderState(data.days.size);
+
+  // Auto-assign first day to oscillator 1
+  const dates = Array.from(data.days.keys()).sort().reverse();
+  if (dates.length > 0 && !(isReimport && oscillatorMixer?.getOscillatorDay(0))) {
+    oscillatorMixer?.setOscillatorDay(0, dates[0]);
+    mobileOscillatorMixer?.setOscillatorDay(0, dates[0]);
+  }
+}
+
+/**
+ * Add a user-picked time range as a wavetable source and load it into an oscillator
+ */
+async function addCustomWindow(oscIndex: number, start: number, end: number): Promise<void> {
+  if (!glucoseData) return;
+
+  if (!insertCustomWindow(glucoseData, start, end)) {
+    showError('Not enough glucose readings in that range');
+    return;
+  }
+  if (!customWindows.some(range => range.start === start && range.end === end)) {
+    customWindows.push({ start, end });
+  }
+
+  const key = customWindowKey(start, end);
+  for (const mixer of [oscillatorMixer, mobileOscillatorMixer]) {
+    mixer?.setData(glucoseData);
+    mixer?.setOscillatorDay(oscIndex, key);
+  }
+
+  if (activeDatasetId !== null) {
+    await storeDataset(glucoseData, lastImportSources, true);
+  }
+}
+
+/**
+ * Build a custom window (with its wavetable) into the data; false when the range has too few readings
+ */
+function insertCustomWindow(data: ParsedLibreViewData, start: number, end: number): boolean {
+  const slice = buildCustomWindow(data, start, end);
+  if (!slice) return false;
+
+  slice.wavetable = generateWavetable(slice, importOptions.gapFill);
+  data.windows.set(customWindowKey(start, end), slice);
+  return true;
+}
+
 /**
  * Update file loader UI state for both desktop and mobile
  */
@@ -265,17 +422,23 @@ function setupFileLoader(): void {
 
   if (!fileLoaderBtn || !fileInput) return;
 
-  // Click button to open file dialog
+  fileInput.accept = getAcceptedExtensions().join(',');
+
+  // Click button to open file dialog (or cancel a running import)
   fileLoaderBtn.addEventListener('click', (e) => {
     if ((e.target as HTMLElement).closest('input')) return;
+    if (getImportWorker().busy) {
+      getImportWorker().cancel();
+      return;
+    }
     fileInput.click();
   });
 
-  // File input change
+  // File input change (several files are merged into one dataset)
   fileInput.addEventListener('change', (e) => {
     const files = (e.target as HTMLInputElement).files;
-    if (files && files[0]) {
-      handleFile(files[0]);
+    if (files && files.length > 0) {
+      handleFiles(Array.from(files));
     }
   });
 
@@ -300,68 +463,489 @@ function setupFileLoader(): void {
       fileLoaderBtn.classList.remove('drag-over');
       
       const files = (e as DragEvent).dataTransfer?.files;
-      if (files && files[0]) {
-        handleFile(files[0]);
+      if (files && files.length > 0) {
+        handleFiles(Array.from(files));
       }
     });
   }
 }
 
 /**
- * Handle uploaded file
+ * Handle uploaded files
+ * Files picked together are merged; with append they are merged into the current data instead
  */
-async function handleFile(file: File): Promise<void> {
-  const fileLoaderBtn = document.getElementById('file-loader-btn');
-  const mobileFileBtn = document.getElementById('mobile-file-loader-btn');
-  
-  if (!file.name.endsWith('.csv')) {
-    showError('Please upload a CSV file from LibreView');
-    return;
+async function handleFiles(files: File[], append: boolean = false): Promise<void> {
+  const supported = files.filter(file => isSupportedFile(file.name));
+  const unsupported = files.filter(file => !isSupportedFile(file.name));
+
+  if (unsupported.length > 0) {
+    const names = unsupported.map(file => file.name).join(', ');
+    showError(`Unsupported file type (${names}). Please upload a ${getAcceptedExtensions().join(' or ')} export`);
   }
+  if (supported.length === 0) return;
 
+  const sources: ImportSource[] = supported.map(file => ({ file, fileName: file.name }));
+  if (append) {
+    await importSources([...lastImportSources, ...sources], true);
+  } else {
+    await importSources(sources);
+  }
+}
+
+/**
+ * Import files with the current import options
+ * Parsing, merging and wavetable generation run in the import worker
+ */
+async function importSources(sources: ImportSource[], isReimport: boolean = false): Promise<void> {
   try {
-    fileLoaderBtn?.classList.add('loading');
-    mobileFileBtn?.classList.add('loading');
+    setFileLoaderLoading(true);
     
-    const text = await file.text();
-    glucoseData = parseLibreViewCSV(text);
+    const base = isReimport ? libraryDataset?.data : undefined;
+    const data = await getImportWorker().importFiles(sources, importOptions, updateFileLoaderProgress, base);
     
-    if (glucoseData.days.size === 0) {
-      showError('No glucose data found in the file');
-      fileLoaderBtn?.classList.remove('loading');
-      mobileFileBtn?.classList.remove('loading');
+    setFileLoaderLoading(false);
+    updateImportSummary(data);
+
+    if (data.days.size === 0) {
+      // The summary explains what was skipped
+      showError(sources.length > 1 ? 'No glucose data found in the files' : 'No glucose data found in the file');
+      restoreFileLoaderLabel();
+      importSummaryPanel?.open();
       return;
     }
 
-    // Generate wavetables for all days
-    generateAllWavetables(glucoseData.days);
+    // Re-parsing data that isn't in the library (the sample, or a deleted dataset) keeps it out
+    const keepInLibrary = !(isReimport && sources === lastImportSources && activeDatasetId === null);
+    lastImportSources = sources;
+    syntheticOptions = null;
+    if (!isReimport) {
+      libraryDataset = null;
+    }
+    applyGlucoseData(data, isReimport);
+    if (keepInLibrary) {
+      await storeDataset(data, sources, isReimport);
+    }
 
-    // Update desktop UI
-    oscillatorMixer?.setData(glucoseData);
-    
-    // Update mobile UI
-    mobileOscillatorMixer?.setData(glucoseData);
-    
-    fileLoaderBtn?.classList.remove('loading');
-    mobileFileBtn?.classList.remove('loading');
-    
-    // Update file loader states
+    console.log(`Loaded ${data.days.size} days of glucose data from ${sources.length} file(s) (${data.timezone})`);
+  } catch (error) {
+    setFileLoaderLoading(false);
+    restoreFileLoaderLabel();
+
+    if (error instanceof ImportCancelledError) {
+      console.log('Import cancelled');
+      return;
+    }
+    if (error instanceof ImportMappingRequiredError) {
+      requestColumnMapping(sources, error, isReimport);
+      return;
+    }
+    console.error('Error parsing file:', error);
+    showError('Error parsing file. Make sure it\'s a valid LibreView, Dexcom Clarity, Nightscout, FHIR or Apple Health export, or a Glukoscillator project.');
+  }
+}
+
+/**
+ * Resolve an unrecognized CSV layout: apply a matching saved profile, or ask the user
+ */
+function requestColumnMapping(sources: ImportSource[], error: ImportMappingRequiredError, isReimport: boolean): void {
+  const source = sources[error.sourceIndex];
+  const profile = findMappingProfile(error.preview, mappingProfiles);
+
+  if (profile) {
+    console.log(`Applying column mapping "${profile.name}" to ${source.fileName}`);
+    importSources(withColumnMapping(sources, error.sourceIndex, profile.mapping), isReimport);
+    return;
+  }
+
+  // A header alone has nothing to map
+  if (error.preview.lines.length < 2) {
+    showError(`No glucose data found in ${source.fileName}`);
+    return;
+  }
+
+  pendingMapping = { sources, sourceIndex: error.sourceIndex, isReimport };
+  columnMappingWizard?.open(source.fileName, error.preview, mappingProfiles);
+}
+
+/**
+ * Copy a source list with one source's column mapping set
+ */
+function withColumnMapping(sources: ImportSource[], index: number, mapping: ColumnMapping): ImportSource[] {
+  return sources.map((source, i) => i === index ? { ...source, mapping } : source);
+}
+
+/**
+ * Toggle loading state on both file loaders
+ */
+function setFileLoaderLoading(loading: boolean): void {
+  const buttons = [
+    document.getElementById('file-loader-btn'),
+    document.getElementById('mobile-file-loader-btn'),
+  ];
+  for (const btn of buttons) {
+    btn?.classList.toggle('loading', loading);
+    if (btn) {
+      btn.title = loading ? 'Click to cancel import' : 'Load glucose data';
+    }
+  }
+}
+
+/**
+ * Show import progress in the file loader labels
+ */
+function updateFileLoaderProgress(stage: ImportStage, fraction: number): void {
+  const stageLabels: Record<ImportStage, string> = {
+    reading: 'Reading',
+    parsing: 'Parsing',
+    wavetables: 'Tables',
+  };
+  const percent = Math.round(fraction * 100);
+
+  const fileLabel = document.getElementById('file-label');
+  if (fileLabel) {
+    fileLabel.textContent = `${stageLabels[stage]} ${percent}%`;
+  }
+
+  const mobileFileLabel = document.getElementById('mobile-file-label');
+  if (mobileFileLabel) {
+    mobileFileLabel.textContent = `${percent}%`;
+  }
+}
+
+/**
+ * Restore file loader labels after a failed or cancelled import
+ */
+function restoreFileLoaderLabel(): void {
+  if (glucoseData) {
     updateFileLoaderState(glucoseData.days.size);
+    return;
+  }
+  const fileLabel = document.getElementById('file-label');
+  if (fileLabel) fileLabel.textContent = 'Load Data';
+  const mobileFileLabel = document.getElementById('mobile-file-label');
+  if (mobileFileLabel) mobileFileLabel.textContent = 'Load';
+}
 
-    // Auto-assign first day to oscillator 1
-    const dates = Array.from(glucoseData.days.keys()).sort().reverse();
-    if (dates.length > 0) {
-      oscillatorMixer?.setOscillatorDay(0, dates[0]);
-      mobileOscillatorMixer?.setOscillatorDay(0, dates[0]);
+/**
+ * Set up the settings dialog and its header buttons
+ */
+function setupSettingsPanel(): void {
+  settingsPanel = createSettingsPanel('settings-panel', importOptions, getGlucoseTargets(), displayUnitPreference);
+
+  settingsPanel.onImportOptionsChange((options) => {
+    importOptions = options;
+    saveImportOptions(options);
+
+    // Re-parse the current data so day boundaries follow the new options
+    if (syntheticOptions) {
+      loadSyntheticData(syntheticOptions, true);
+    } else if (libraryDataset || lastImportSources.length > 0) {
+      importSources(lastImportSources, true);
     }
+  });
 
-    console.log(`Loaded ${glucoseData.days.size} days of glucose data`);
-  } catch (error) {
-    console.error('Error parsing file:', error);
-    showError('Error parsing file. Make sure it\'s a valid LibreView export.');
-    fileLoaderBtn?.classList.remove('loading');
-    mobileFileBtn?.classList.remove('loading');
+  settingsPanel.onGlucoseTargetsChange((targets) => {
+    setGlucoseTargets(targets);
+    saveGlucoseTargets(targets);
+
+    // Only time in range depends on the targets; recompute it in place and redraw
+    if (glucoseData) {
+      applyGlucoseTargets(glucoseData);
+      oscillatorMixer?.setData(glucoseData);
+      mobileOscillatorMixer?.setData(glucoseData);
+    }
+  });
+
+  settingsPanel.onDisplayUnitChange((preference) => {
+    displayUnitPreference = preference;
+    saveDisplayUnitPreference(preference);
+
+    // Internal values stay in mg/dL; only the labels are redrawn
+    setDisplayUnit(resolveDisplayUnit(preference, glucoseData?.unit ?? 'mg/dL'));
+    settingsPanel?.refreshDisplayUnit();
+    if (glucoseData) {
+      oscillatorMixer?.setData(glucoseData);
+      mobileOscillatorMixer?.setData(glucoseData);
+    }
+  });
+
+  settingsPanel.setMappingProfiles(mappingProfiles);
+  settingsPanel.onMappingProfileDelete((name) => {
+    mappingProfiles = mappingProfiles.filter(profile => profile.name !== name);
+    saveMappingProfiles(mappingProfiles);
+    settingsPanel?.setMappingProfiles(mappingProfiles);
+  });
+
+  for (const id of ['settings-btn', 'mobile-settings-btn']) {
+    document.getElementById(id)?.addEventListener('click', () => settingsPanel?.open());
+  }
+}
+
+/**
+ * Set up the import summary dialog and its header buttons
+ */
+function setupImportSummaryPanel(): void {
+  importSummaryPanel = createImportSummaryPanel('import-summary-panel');
+  importSummaryPanel.onAddFiles((files) => handleFiles(files, true));
+  importSummaryPanel.onExport(exportProject);
+
+  for (const id of ['import-summary-btn', 'mobile-import-summary-btn']) {
+    document.getElementById(id)?.addEventListener('click', () => importSummaryPanel?.open());
+  }
+}
+
+/**
+ * Set up the column mapping wizard for CSVs no importer recognizes
+ */
+function setupColumnMappingWizard(): void {
+  columnMappingWizard = createColumnMappingWizard('column-mapping-wizard');
+
+  columnMappingWizard.onApply((mapping, profileName) => {
+    if (profileName) {
+      mappingProfiles = storeMappingProfile(mappingProfiles, { name: profileName, mapping });
+      settingsPanel?.setMappingProfiles(mappingProfiles);
+    }
+
+    const pending = pendingMapping;
+    pendingMapping = null;
+    if (pending) {
+      importSources(withColumnMapping(pending.sources, pending.sourceIndex, mapping), pending.isReimport);
+    }
+  });
+
+  columnMappingWizard.onCancel(() => {
+    pendingMapping = null;
+  });
+}
+
+/**
+ * Set up the library dialog and its header buttons
+ */
+function setupLibraryPanel(): void {
+  libraryPanel = createLibraryPanel('library-panel');
+  libraryPanel.onLoad((id) => {
+    loadStoredDataset(id).then(loaded => {
+      if (loaded) {
+        libraryPanel?.close();
+      } else {
+        showError('Could not load the stored dataset');
+      }
+    });
+  });
+  libraryPanel.onDelete(deleteStoredDataset);
+  libraryPanel.onGenerate((options) => {
+    loadSyntheticData(options);
+    libraryPanel?.close();
+  });
+
+  for (const id of ['library-btn', 'mobile-library-btn']) {
+    document.getElementById(id)?.addEventListener('click', () => {
+      refreshLibrary();
+      libraryPanel?.open();
+    });
   }
+  refreshLibrary();
+}
+
+/**
+ * Reload the library dialog's dataset list
+ */
+async function refreshLibrary(): Promise<void> {
+  const datasets = await getDatasetStore().list();
+  libraryPanel?.setDatasets(datasets, activeDatasetId);
+}
+
+/**
+ * Remember which library entry is loaded (restored on the next startup)
+ */
+function setActiveDataset(id: number | null): void {
+  activeDatasetId = id;
+  saveActiveDatasetId(id);
+}
+
+/**
+ * Store imported data in the library
+ * A re-import updates the loaded entry; a new import replaces the entry for the same files, if any
+ */
+async function storeDataset(data: ParsedLibreViewData, sources: ImportSource[], isReimport: boolean): Promise<void> {
+  // New data no longer belongs to the previously loaded entry
+  if (!isReimport) {
+    setActiveDataset(null);
+  }
+
+  const store = getDatasetStore();
+  let id = isReimport ? activeDatasetId : null;
+  if (id === null) {
+    const signature = getSourcesSignature(sources);
+    id = (await store.list()).find(dataset => dataset.signature === signature)?.id ?? null;
+  }
+
+  // A restored entry keeps the names of the files it was imported from (plus any added since)
+  const summary = summarizeDataset(data, sources);
+  if (libraryDataset && isReimport) {
+    summary.name = [libraryDataset.name, ...sources.map(source => source.fileName)].join(', ');
+    summary.signature = sources.length > 0
+      ? `${libraryDataset.signature}|${getSourcesSignature(sources)}`
+      : libraryDataset.signature;
+  }
+
+  const savedId = await store.save(
+    id !== null ? { ...summary, id } : summary,
+    { data, options: importOptions, customWindows }
+  );
+  if (savedId === null) {
+    showError('Could not keep the dataset in the browser library (storage full or unavailable)');
+    return;
+  }
+
+  // A newer import may have replaced the data while this one was saving
+  if (glucoseData === data) {
+    setActiveDataset(savedId);
+  }
+  refreshLibrary();
+}
+
+/**
+ * Load a dataset from the library; false when it is missing or unreadable
+ * Stored wavetables are used as-is. If the import options changed since, the stored records are
+ * merged and regrouped with the current options (see regroupDataset).
+ */
+async function loadStoredDataset(id: number): Promise<boolean> {
+  const stored = await getDatasetStore().load(id);
+  if (!stored) return false;
+
+  // A dataset picked from the library wins over a running import
+  getImportWorker().cancel();
+  setFileLoaderLoading(false);
+
+  // Targets may have changed since the dataset was stored
+  applyGlucoseTargets(stored.data);
+  updateImportSummary(stored.data);
+  libraryDataset = { data: stored.data, name: stored.summary.name, signature: stored.summary.signature };
+  lastImportSources = [];
+  syntheticOptions = null;
+  setActiveDataset(id);
+  applyGlucoseData(stored.data);
+  customWindows = stored.customWindows;
+  refreshLibrary();
+
+  if (JSON.stringify(stored.options) !== JSON.stringify(importOptions)) {
+    importSources(lastImportSources, true);
+  }
+
+  console.log(`Restored ${stored.summary.dayCount} days of glucose data from the library`);
+  return true;
+}
+
+/**
+ * Generate synthetic CGM data and load it (it is not stored in the library)
+ */
+function loadSyntheticData(options: SyntheticDataOptions, isReimport: boolean = false): void {
+  // Generated data replaces whatever an import in progress would have loaded
+  getImportWorker().cancel();
+  setFileLoaderLoading(false);
+
+  const data = generateSyntheticData(options, importOptions);
+  generateAllWavetables(data.days, importOptions.gapFill);
+  generateAllWavetables(data.windows, importOptions.gapFill);
+
+  updateImportSummary(data);
+  lastImportSources = [];
+  libraryDataset = null;
+  syntheticOptions = options;
+  setActiveDataset(null);
+  applyGlucoseData(data, isReimport);
+  refreshLibrary();
+
+  console.log(`Generated ${data.days.size} days of synthetic glucose data (${getSyntheticDataName(options)})`);
+}
+
+/**
+ * Restore the dataset that was loaded in the last session
+ */
+async function restoreActiveDataset(): Promise<boolean> {
+  const id = loadActiveDatasetId();
+  if (id === null) return false;
+
+  if (await loadStoredDataset(id)) return true;
+  setActiveDataset(null);
+  return false;
+}
+
+/**
+ * Remove a dataset from the library (the loaded data stays until something else is loaded)
+ */
+async function deleteStoredDataset(id: number): Promise<void> {
+  if (!(await getDatasetStore().delete(id))) {
+    showError('Could not delete the stored dataset');
+  }
+  if (id === activeDatasetId) {
+    setActiveDataset(null);
+  }
+  refreshLibrary();
+}
+
+/**
+ * Show an import's diagnostics in the summary dialog and flag warnings on its buttons
+ */
+function updateImportSummary(data: ParsedLibreViewData): void {
+  // Date labels everywhere follow the imported data (Day 1..N for anonymized projects)
+  setRelativeTimeline(data.relativeTimeline === true);
+  importSummaryPanel?.setData(data);
+
+  const warnings = hasImportWarnings(data.diagnostics);
+  for (const id of ['import-summary-btn', 'mobile-import-summary-btn']) {
+    const btn = document.getElementById(id) as HTMLButtonElement | null;
+    if (!btn) continue;
+    btn.disabled = false;
+    btn.classList.toggle('has-warning', warnings);
+    btn.title = warnings ? 'Import summary (some rows need attention)' : 'Import summary';
+  }
+}
+
+/**
+ * Save the loaded data as a .glukojson project file
+ */
+function exportProject(options: ProjectExportOptions): void {
+  if (!glucoseData) return;
+
+  const content = exportProjectFile(glucoseData, options, importOptions.gapFill);
+  const firstDate = Array.from(glucoseData.days.keys()).sort()[0];
+  const name = options.relativeDates || glucoseData.relativeTimeline
+    ? 'glukoscillator-anonymized'
+    : `glukoscillator-${firstDate}`;
+
+  downloadFile(new Blob([content], { type: 'application/json' }), name + PROJECT_FILE_EXTENSION);
+}
+
+/**
+ * Save wavetable frames as a WAV for other wavetable synths
+ */
+function exportWavetable(frames: Float32Array[], sources: DailyGlucoseData[]): void {
+  const first = sources[0].date;
+  const last = sources[sources.length - 1].date;
+  const name = glucoseData?.relativeTimeline
+    ? 'glukoscillator-wavetable'
+    : `glukoscillator-${first}${last !== first ? `-to-${last}` : ''}`;
+
+  const content = encodeWavetableWAV(frames);
+  downloadFile(
+    new Blob([content], { type: 'audio/wav' }),
+    name + (frames.length > 1 ? `-${frames.length}-frames` : '') + WAV_FILE_EXTENSION
+  );
+}
+
+/**
+ * Start a browser download of a file
+ */
+function downloadFile(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoke after the click has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
 }
 
 /**
@@ -0,0 +1,204 @@
+// Apple Health Parser
+// Parses blood glucose records from the Health app's "Export All Health Data" export.xml.
+// The export holds every health record and often runs to hundreds of MB, so it is scanned in
+// chunks for glucose records instead of being read into one string or an XML DOM.
+
+import type { GlucoseReading, GlucoseUnit, ParsedLibreViewData, ImportProgressCallback } from '../types';
+import { MGDL_PER_MMOL } from '../types';
+import { groupReadingsByDay } from './day-grouping';
+import { DiagnosticsCollector } from './diagnostics';
+import { type ImportOptions, resolveTimeZone } from './import-options';
+import { mergeReadings } from './reading-merge';
+import { SourceRegistry } from './reading-sources';
+import { buildTimeWindows } from './time-windows';
+
+// The attribute marking a glucose record; everything else in the export is skipped
+const GLUCOSE_TYPE_ATTRIBUTE = 'type="HKQuantityTypeIdentifierBloodGlucose"';
+
+// Bytes decoded per step when reading a file in chunks
+const CHUNK_SIZE = 4 * 1024 * 1024;
+
+// Health export dates: "2025-11-24 08:15:00 +0100"
+const HEALTH_DATE = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2}) ([+-])(\d{2})(\d{2})$/;
+
+const ATTRIBUTE = /(\w+)="([^"]*)"/g;
+
+const XML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+};
+
+/**
+ * Check whether the start of an XML file looks like an Apple Health export
+ */
+export function isAppleHealthExport(head: string): boolean {
+  return head.includes('<!DOCTYPE HealthData') || head.includes('<HealthData');
+}
+
+/**
+ * Collects glucose readings from export.xml text fed in pieces of any size
+ */
+class AppleHealthScanner {
+  readonly readings: GlucoseReading[] = [];
+  readonly diagnostics = new DiagnosticsCollector('Apple Health export.xml');
+  readonly sources = new SourceRegistry();
+  recordCount = 0;
+  private unitCounts: Record<GlucoseUnit, number> = { 'mg/dL': 0, 'mmol/L': 0 };
+  private buffer = '';
+
+  /**
+   * Scan the next piece of the file; a record cut off at the end waits for the next piece
+   */
+  push(text: string): void {
+    const buffer = this.buffer + text;
+    let position = 0;
+
+    for (;;) {
+      const typeIndex = buffer.indexOf(GLUCOSE_TYPE_ATTRIBUTE, position);
+      if (typeIndex === -1) break;
+
+      const start = buffer.lastIndexOf('<', typeIndex);
+      const end = buffer.indexOf('>', typeIndex);
+      if (end === -1) {
+        // Incomplete tag: keep it for the next piece
+        this.buffer = buffer.slice(start);
+        return;
+      }
+      if (buffer.startsWith('<Record', start)) {
+        this.readRecord(buffer.slice(start, end + 1));
+      }
+      position = end + 1;
+    }
+
+    // Keep a trailing unfinished tag, which may turn out to be a glucose record
+    const lastOpen = buffer.lastIndexOf('<');
+    this.buffer = lastOpen >= position && buffer.indexOf('>', lastOpen) === -1 ? buffer.slice(lastOpen) : '';
+  }
+
+  /**
+   * Unit most records were written in
+   */
+  get unit(): GlucoseUnit {
+    return this.unitCounts['mmol/L'] > this.unitCounts['mg/dL'] ? 'mmol/L' : 'mg/dL';
+  }
+
+  /**
+   * Turn one <Record ...> start tag into a reading
+   */
+  private readRecord(tag: string): void {
+    this.recordCount++;
+    const attributes = parseAttributes(tag);
+
+    // Records are reported by their position among glucose records
+    const timestamp = parseHealthDate(attributes.startDate ?? '');
+    if (!timestamp) {
+      this.diagnostics.skip(this.recordCount, 'invalid-timestamp', attributes.startDate ?? '');
+      return;
+    }
+
+    const value = parseFloat(attributes.value ?? '');
+    // mmol/L is written with its molar mass: "mmol<180.1558800000541>/L"
+    const unit: GlucoseUnit | null = attributes.unit === 'mg/dL' ? 'mg/dL'
+      : attributes.unit?.startsWith('mmol') ? 'mmol/L'
+      : null;
+    if (isNaN(value) || value <= 0 || !unit) {
+      this.diagnostics.skip(this.recordCount, 'invalid-value', `${attributes.value ?? ''} ${attributes.unit ?? ''}`.trim());
+      return;
+    }
+    this.unitCounts[unit]++;
+
+    this.readings.push({
+      timestamp,
+      value: unit === 'mmol/L' ? value * MGDL_PER_MMOL : value,
+      recordType: 0,
+      // The app that wrote the record ("Dexcom G7", "LibreLink", "Health" for manual entries)
+      source: this.sources.add(attributes.sourceName || 'Apple Health', ''),
+    });
+  }
+}
+
+/**
+ * Parse an Apple Health export.xml already read into a string
+ */
+export function parseAppleHealthXML(content: string, options: ImportOptions, onProgress?: ImportProgressCallback): ParsedLibreViewData {
+  const scanner = new AppleHealthScanner();
+  scanner.push(content);
+  onProgress?.(0.9);
+  return buildDataset(scanner, options, onProgress);
+}
+
+/**
+ * Parse an Apple Health export.xml straight from the file, a chunk at a time
+ */
+export async function streamAppleHealthXML(
+  file: Blob,
+  options: ImportOptions,
+  onProgress?: ImportProgressCallback
+): Promise<ParsedLibreViewData> {
+  const scanner = new AppleHealthScanner();
+  const decoder = new TextDecoder();
+
+  for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+    const bytes = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+    // stream: true keeps multi-byte characters split across chunks intact
+    scanner.push(decoder.decode(bytes, { stream: true }));
+    onProgress?.(0.9 * Math.min(1, (offset + CHUNK_SIZE) / file.size));
+  }
+  scanner.push(decoder.decode());
+
+  return buildDataset(scanner, options, onProgress);
+}
+
+/**
+ * Group the scanned readings into days
+ */
+function buildDataset(scanner: AppleHealthScanner, options: ImportOptions, onProgress?: ImportProgressCallback): ParsedLibreViewData {
+  const timeZone = resolveTimeZone(options);
+  const readings = scanner.readings.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const merge = mergeReadings(readings, options.readingMerge);
+  scanner.diagnostics.recordMerge(merge.duplicates, merge.droppedScans);
+
+  const days = groupReadingsByDay(merge.readings, [], timeZone, options.dayStartHour);
+  onProgress?.(1);
+
+  return {
+    days,
+    unit: scanner.unit,
+    timezone: timeZone,
+    windows: buildTimeWindows(days, timeZone, options),
+    sources: scanner.sources.sources,
+    records: { readings, events: [] },
+    // Dates carry their UTC offset, so there is no day/month ambiguity
+    diagnostics: scanner.diagnostics.build(scanner.recordCount, days, null),
+  };
+}
+
+/**
+ * Read a start tag's attributes (values unescaped)
+ */
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(ATTRIBUTE)) {
+    attributes[match[1]] = match[2].replace(/&(amp|lt|gt|quot|apos);/g, entity => XML_ENTITIES[entity]);
+  }
+  return attributes;
+}
+
+/**
+ * Parse a Health export date with its UTC offset
+ */
+function parseHealthDate(value: string): Date | null {
+  const match = value.match(HEALTH_DATE);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, sign, offsetHours, offsetMinutes] = match;
+  const offset = (sign === '-' ? -1 : 1) * (parseInt(offsetHours) * 60 + parseInt(offsetMinutes)) * 60000;
+  return new Date(Date.UTC(
+    parseInt(year), parseInt(month) - 1, parseInt(day),
+    parseInt(hour), parseInt(minute), parseInt(second)
+  ) - offset);
+}
@@ -0,0 +1,184 @@
+// Column Mapping
+// User-chosen column layout for CSV exports the built-in importers don't recognize
+// (localized LibreView exports, spreadsheets, other vendors), saved as named profiles
+
+import type { DateOrder, GlucoseUnit } from '../types';
+import { type CSVDelimiter, CSV_DELIMITERS, parseCSVLine, detectDelimiter, detectUnit, looksLikeTimestamp } from './csv-utils';
+
+export interface ColumnMapping {
+  delimiter: CSVDelimiter;
+  headerRow: number;        // 0-based line index of the header (metadata lines may come first)
+  timestamp: string;        // column names as they appear in the header
+  glucose: string;          // automatic / historic readings
+  scan: string | null;      // optional manual scans column
+  unit: GlucoseUnit;
+  dateOrder: DateOrder | 'auto';
+}
+
+export interface ColumnMappingProfile {
+  name: string;
+  mapping: ColumnMapping;
+}
+
+// First lines of a file, split into fields, for the mapping wizard
+export interface CSVPreview {
+  delimiter: CSVDelimiter;
+  headerRow: number; // best guess
+  lines: string[][];
+}
+
+// Lines kept in a preview (metadata + header + a few sample rows)
+const PREVIEW_LINES = 16;
+
+// Plausible glucose range in either unit, used to spot glucose columns
+const GLUCOSE_VALUE_RANGE = { min: 1, max: 600 };
+
+// Header words for glucose in the languages LibreView exports in
+const GLUCOSE_HEADER_PATTERN = /gluc|gluk|glyc|glyk|sgv|bg\b|blood sugar|blutzucker|sukker/i;
+const SCAN_HEADER_PATTERN = /scan/i;
+
+// Storage key for persisting mapping profiles
+export const MAPPING_PROFILES_STORAGE_KEY = 'glukoscillator-column-mappings';
+
+/**
+ * Thrown by importers when they can't find their columns, so the user can map them
+ */
+export class ColumnMappingRequiredError extends Error {
+  readonly preview: CSVPreview;
+
+  constructor(preview: CSVPreview) {
+    super('Could not find timestamp and glucose columns');
+    this.name = 'ColumnMappingRequiredError';
+    this.preview = preview;
+  }
+}
+
+/**
+ * Split the first lines of a file for the mapping wizard
+ */
+export function buildCSVPreview(content: string): CSVPreview {
+  const raw = content.trim().split(/\r?\n/, PREVIEW_LINES);
+  const delimiter = detectDelimiter(raw);
+  const lines = raw.map(line => parseCSVLine(line, delimiter).map(field => field.trim()));
+
+  // The header is the first line as wide as the data below it
+  const widest = Math.max(0, ...lines.map(fields => fields.length));
+  const headerRow = Math.max(0, lines.findIndex(fields => fields.length === widest));
+
+  return { delimiter, headerRow, lines };
+}
+
+/**
+ * Guess a mapping from a preview: timestamp from date-shaped values, glucose from header names or numbers
+ */
+export function guessColumnMapping(preview: CSVPreview, headerRow: number = preview.headerRow): ColumnMapping {
+  const headers = preview.lines[headerRow] ?? [];
+  const samples = preview.lines.slice(headerRow + 1);
+
+  const column = (idx: number): string[] => samples.map(fields => fields[idx] ?? '').filter(Boolean);
+  // Mostly plausible numbers (Lo/Hi markers and blanks are tolerated)
+  const isNumericColumn = (idx: number): boolean => {
+    const values = column(idx);
+    const plausible = values
+      .map(v => parseFloat(v.replace(',', '.')))
+      .filter(v => !isNaN(v) && v >= GLUCOSE_VALUE_RANGE.min && v <= GLUCOSE_VALUE_RANGE.max);
+    return values.length > 0 && plausible.length >= values.length / 2;
+  };
+
+  const indices = headers.map((_, idx) => idx);
+  const timestampIdx = indices.find(idx => {
+    const values = column(idx);
+    return values.length > 0 && values.filter(looksLikeTimestamp).length >= values.length / 2;
+  }) ?? 0;
+
+  const named = indices.filter(idx => idx !== timestampIdx && GLUCOSE_HEADER_PATTERN.test(headers[idx]));
+  const scanIdx = named.find(idx => SCAN_HEADER_PATTERN.test(headers[idx]));
+  const glucoseIdx = named.find(idx => idx !== scanIdx && column(idx).length > 0) ??
+    named.find(idx => idx !== scanIdx) ??
+    indices.find(idx => idx !== timestampIdx && isNumericColumn(idx)) ??
+    (timestampIdx === 0 ? 1 : 0);
+
+  // Without a unit in the header, mmol/L values stay below ~35
+  const glucoseValues = column(glucoseIdx).map(v => parseFloat(v.replace(',', '.'))).filter(v => !isNaN(v));
+  const unit = detectUnit(headers) === 'mmol/L' || (glucoseValues.length > 0 && Math.max(...glucoseValues) < 35)
+    ? 'mmol/L'
+    : 'mg/dL';
+
+  return {
+    delimiter: preview.delimiter,
+    headerRow,
+    timestamp: headers[timestampIdx] ?? '',
+    glucose: headers[glucoseIdx] ?? '',
+    scan: scanIdx !== undefined ? headers[scanIdx] : null,
+    unit,
+    dateOrder: 'auto',
+  };
+}
+
+/**
+ * Find a saved profile whose columns all exist in the preview's header line
+ */
+export function findMappingProfile(preview: CSVPreview, profiles: ColumnMappingProfile[]): ColumnMappingProfile | null {
+  return profiles.find(({ mapping }) => {
+    if (mapping.delimiter !== preview.delimiter) return false;
+    const headers = preview.lines[mapping.headerRow];
+    if (!headers) return false;
+    const needed = [mapping.timestamp, mapping.glucose, mapping.scan].filter((c): c is string => c !== null);
+    return needed.every(col => headers.includes(col));
+  }) ?? null;
+}
+
+/**
+ * Check that a stored value is a complete mapping
+ */
+function isColumnMapping(value: unknown): value is ColumnMapping {
+  const m = value as Partial<ColumnMapping> | null;
+  return !!m &&
+    typeof m.delimiter === 'string' && CSV_DELIMITERS.includes(m.delimiter) &&
+    typeof m.headerRow === 'number' &&
+    typeof m.timestamp === 'string' &&
+    typeof m.glucose === 'string' &&
+    (m.scan === null || typeof m.scan === 'string') &&
+    (m.unit === 'mg/dL' || m.unit === 'mmol/L') &&
+    (m.dateOrder === 'auto' || m.dateOrder === 'YMD' || m.dateOrder === 'DMY' || m.dateOrder === 'MDY');
+}
+
+/**
+ * Load saved mapping profiles (invalid entries are dropped)
+ */
+export function loadMappingProfiles(): ColumnMappingProfile[] {
+  try {
+    const saved = localStorage.getItem(MAPPING_PROFILES_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as unknown;
+      if (Array.isArray(parsed)) {
+        return parsed.filter((p): p is ColumnMappingProfile =>
+          typeof p?.name === 'string' && isColumnMapping(p.mapping)
+        );
+      }
+    }
+  } catch (e) {
+    console.warn('Failed to load column mapping profiles:', e);
+  }
+  return [];
+}
+
+/**
+ * Persist mapping profiles
+ */
+export function saveMappingProfiles(profiles: ColumnMappingProfile[]): void {
+  try {
+    localStorage.setItem(MAPPING_PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  } catch (e) {
+    console.warn('Failed to save column mapping profiles:', e);
+  }
+}
+
+/**
+ * Add or replace (by name) a profile and persist the list
+ */
+export function storeMappingProfile(profiles: ColumnMappingProfile[], profile: ColumnMappingProfile): ColumnMappingProfile[] {
+  const updated = [...profiles.filter(p => p.name !== profile.name), profile];
+  saveMappingProfiles(updated);
+  return updated;
+}
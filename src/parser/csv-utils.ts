@@ -0,0 +1,196 @@
+// CSV Utilities
+// Shared line splitting, timestamp and unit helpers for CSV importers
+
+import type { DateOrder, DateOrderDetection, GlucoseUnit } from '../types';
+import { zonedTimeToInstant } from './timezone';
+
+// Numeric date + time: "24-11-2025 20:42", "2025/11/24 20:42:00", "11.24.2025T08:42"
+const DATE_TIME_PATTERN = /(\d{1,4})[-\/.](\d{1,2})[-\/.](\d{1,4})[T\s]+(\d{1,2}):(\d{2})(?::(\d{2}))?/;
+
+export interface CSVRow {
+  [key: string]: string;
+}
+
+// Field separators seen in exports (';' is common where ',' is the decimal mark)
+export type CSVDelimiter = ',' | ';' | '\t';
+
+export const CSV_DELIMITERS: CSVDelimiter[] = [',', ';', '\t'];
+
+/**
+ * Parse a single CSV line, handling quoted fields
+ */
+export function parseCSVLine(line: string, delimiter: CSVDelimiter = ','): string[] {
+  const result: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === delimiter && !inQuotes) {
+      result.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  result.push(current);
+  
+  return result;
+}
+
+/**
+ * Guess the field separator from the first lines of a file
+ * The delimiter splitting the most lines into the same field count wins
+ */
+export function detectDelimiter(lines: string[]): CSVDelimiter {
+  let best: CSVDelimiter = ',';
+  let bestScore = 0;
+  
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = lines.map(line => parseCSVLine(line, delimiter).length).filter(n => n > 1);
+    if (counts.length === 0) continue;
+    const widest = Math.max(...counts);
+    const score = counts.filter(n => n === widest).length * widest;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  
+  return best;
+}
+
+/**
+ * Check whether a field looks like a numeric date + time
+ */
+export function looksLikeTimestamp(value: string): boolean {
+  return DATE_TIME_PATTERN.test(value);
+}
+
+/**
+ * Detect glucose unit from CSV headers
+ */
+export function detectUnit(headers: string[]): GlucoseUnit {
+  const headerStr = headers.join(' ').toLowerCase();
+  if (headerStr.includes('mmol/l')) {
+    return 'mmol/L';
+  }
+  return 'mg/dL';
+}
+
+/**
+ * Work out the day/month order used by a column of timestamps
+ * A value like 24-11-2025 pins DMY and 11-24-2025 pins MDY; if none does,
+ * the order is ambiguous and LibreView's default (DMY) is assumed
+ */
+export function detectDateOrder(values: string[]): DateOrderDetection {
+  let yearFirst = 0;
+  let dayFirst = 0;
+  let monthFirst = 0;
+  
+  for (const value of values) {
+    const parts = value?.match(DATE_TIME_PATTERN);
+    if (!parts) continue;
+    const [, p1, p2, p3] = parts;
+    
+    if (p3.length !== 4) {
+      yearFirst++;
+    } else if (parseInt(p1) > 12) {
+      dayFirst++;
+    } else if (parseInt(p2) > 12) {
+      monthFirst++;
+    }
+  }
+  
+  if (yearFirst > dayFirst + monthFirst) {
+    return { order: 'YMD', ambiguous: false, conflicts: dayFirst + monthFirst };
+  }
+  if (dayFirst === 0 && monthFirst === 0) {
+    return { order: 'DMY', ambiguous: true, conflicts: 0 };
+  }
+  return dayFirst >= monthFirst
+    ? { order: 'DMY', ambiguous: false, conflicts: monthFirst }
+    : { order: 'MDY', ambiguous: false, conflicts: dayFirst };
+}
+
+/**
+ * Parse various timestamp formats
+ * Wall-clock times are interpreted in timeZone (IANA name); explicit offsets win.
+ * dateOrder resolves dates like 05-06-2025 where both fields could be the month.
+ */
+export function parseTimestamp(str: string, timeZone: string, dateOrder: DateOrder = 'DMY'): Date | null {
+  if (!str) return null;
+  
+  // ISO strings carrying their own offset ("Z", "+01:00") are unambiguous
+  if (/T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/.test(str.trim())) {
+    const isoDate = new Date(str.trim());
+    if (!isNaN(isoDate.getTime())) {
+      return isoDate;
+    }
+  }
+  
+  // Don't use native Date parsing as it's inconsistent across browsers
+  // LibreView typically uses: DD-MM-YYYY HH:MM or DD/MM/YYYY HH:MM (European)
+  
+  // Match various date formats with time
+  const parts = str.match(DATE_TIME_PATTERN);
+  if (parts) {
+    const [, p1, p2, p3, hour, minute, second] = parts;
+    let year: number, month: number, day: number;
+    
+    if (p1.length === 4) {
+      // YYYY-MM-DD format (ISO-like)
+      year = parseInt(p1);
+      month = parseInt(p2) - 1;
+      day = parseInt(p3);
+    } else if (p3.length === 4) {
+      // DD-MM-YYYY or MM-DD-YYYY format
+      year = parseInt(p3);
+      
+      const n1 = parseInt(p1);
+      const n2 = parseInt(p2);
+      
+      if (n1 > 12) {
+        // First number > 12, must be day: DD-MM-YYYY
+        day = n1;
+        month = n2 - 1;
+      } else if (n2 > 12) {
+        // Second number > 12, must be day: MM-DD-YYYY
+        month = n1 - 1;
+        day = n2;
+      } else if (dateOrder === 'MDY') {
+        // Both <= 12: follow the order detected for the file
+        month = n1 - 1;
+        day = n2;
+      } else {
+        day = n1;
+        month = n2 - 1;
+      }
+    } else {
+      // YY-MM-DD or other short format
+      year = 2000 + parseInt(p1);
+      month = parseInt(p2) - 1;
+      day = parseInt(p3);
+    }
+    
+    return zonedTimeToInstant({
+      year,
+      month,
+      day,
+      hour: parseInt(hour),
+      minute: parseInt(minute),
+      second: second ? parseInt(second) : 0,
+    }, timeZone);
+  }
+  
+  // Fallback: try native parsing for ISO format
+  const isoDate = new Date(str);
+  if (!isNaN(isoDate.getTime())) {
+    return isoDate;
+  }
+  
+  return null;
+}
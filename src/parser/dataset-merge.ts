@@ -0,0 +1,125 @@
+// Dataset Merge
+// Combines several parsed exports (consecutive downloads, two sensors, Libre + Dexcom) into one dataset,
+// and regroups a stored dataset under new import options. Both start from the records read before the merge.
+// Overlapping exports repeat the same readings; those collapse like any other near-duplicate.
+
+import type { GlucoseEvent, GlucoseReading, ParsedLibreViewData } from '../types';
+import { groupReadingsByDay } from './day-grouping';
+import { combineDiagnostics } from './diagnostics';
+import { resolveTimeZone, type ImportOptions } from './import-options';
+import { mergeReadings } from './reading-merge';
+import { SourceRegistry } from './reading-sources';
+import { buildTimeWindows } from './time-windows';
+
+/**
+ * Merge parsed files into one dataset
+ * All files must have been parsed with the same timezone. The first file's unit is kept for display;
+ * values are mg/dL internally whatever the file unit was.
+ */
+export function mergeDatasets(
+  datasets: ParsedLibreViewData[],
+  options: ImportOptions
+): ParsedLibreViewData {
+  if (datasets.length === 0) {
+    throw new Error('No datasets to merge');
+  }
+  if (datasets.length === 1) {
+    return datasets[0];
+  }
+  checkMergeable(datasets);
+
+  return combineDatasets(datasets, datasets[0].timezone, options);
+}
+
+/**
+ * Merge and group a dataset's records again under other import options, with any files added to it
+ * Readings keep the instants they were parsed as: a new timezone moves the day boundaries,
+ * but local times in zone-less exports (LibreView, Dexcom, CSV) are not read again.
+ */
+export function regroupDataset(
+  data: ParsedLibreViewData,
+  options: ImportOptions,
+  added: ParsedLibreViewData[] = []
+): ParsedLibreViewData {
+  const datasets = [data, ...added];
+  if (datasets.length > 1) {
+    checkMergeable(datasets);
+  }
+  // Day N of an anonymized project is laid out in the zone it was exported from
+  const timeZone = data.relativeTimeline ? data.timezone : resolveTimeZone(options);
+  return combineDatasets(datasets, timeZone, options);
+}
+
+/**
+ * Throw when the datasets can't be lined up on one calendar
+ */
+function checkMergeable(datasets: ParsedLibreViewData[]): void {
+  // Day N of an anonymized project has no calendar date to line up with other files
+  if (datasets.some(data => data.relativeTimeline)) {
+    throw new Error('Anonymized project files (Day 1..N) can\'t be merged with other files');
+  }
+}
+
+/**
+ * Pool the datasets' records, merge the readings and group them into days
+ */
+function combineDatasets(
+  datasets: ParsedLibreViewData[],
+  timeZone: string,
+  options: ImportOptions
+): ParsedLibreViewData {
+  const sources = new SourceRegistry();
+  const readings: GlucoseReading[] = [];
+  const events: GlucoseEvent[] = [];
+
+  for (const data of datasets) {
+    // Source indices are per file; re-number them into the merged list
+    const sourceMap = data.sources.map(source => sources.add(source.device, source.serial));
+
+    for (const reading of data.records.readings) {
+      readings.push(reading.source === undefined
+        ? reading
+        : { ...reading, source: sourceMap[reading.source] });
+    }
+    events.push(...data.records.events);
+  }
+
+  readings.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  // The pooled readings are merged once, so scans may now fall inside another file's historic data
+  const merge = mergeReadings(readings, options.readingMerge);
+  const mergedEvents = removeDuplicateEvents(events);
+  const days = groupReadingsByDay(merge.readings, mergedEvents, timeZone, options.dayStartHour);
+  const relativeTimeline = datasets[0].relativeTimeline === true;
+
+  return {
+    days,
+    windows: buildTimeWindows(days, timeZone, options, relativeTimeline),
+    unit: datasets[0].unit,
+    timezone: timeZone,
+    relativeTimeline,
+    sources: sources.sources,
+    records: { readings, events: mergedEvents },
+    diagnostics: combineDiagnostics(
+      datasets.map(data => data.diagnostics),
+      days,
+      merge.duplicates,
+      merge.droppedScans
+    ),
+  };
+}
+
+/**
+ * Sort events and drop exact repeats (the same entry in two overlapping exports)
+ */
+function removeDuplicateEvents(events: GlucoseEvent[]): GlucoseEvent[] {
+  const seen = new Set<string>();
+  return events
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .filter(event => {
+      const key = `${event.timestamp.getTime()}|${event.type}|${event.value}|${event.text ?? ''}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
@@ -0,0 +1,199 @@
+// Day Grouping
+// Groups parsed readings into days (from local midnight or a configured hour) and computes per-day stats.
+// Also cuts arbitrary time slices for sleep/meal/custom windows.
+// Shared by every importer so they all produce the same ParsedLibreViewData shape.
+
+import type { GlucoseReading, GlucoseEvent, GlucoseGap, DailyGlucoseData } from '../types';
+import { formatZonedDateKey, getZonedDayBounds } from './timezone';
+import { getGlucoseTargets } from './glucose-targets';
+import { EMPTY_GLUCOSE_METRICS, calculateGlucoseMetrics } from './glucose-metrics';
+
+// Readings further apart than this count as a sensor gap.
+// Historic CGM records are every 5 (Dexcom) or 15 (Libre) minutes, so a single missed record is not a gap.
+export const GAP_THRESHOLD_MS = 30 * 60 * 1000;
+
+/**
+ * Group readings by day (local midnight in timeZone, or dayStartHour) and calculate stats
+ * Readings must be sorted by time. Events are attached to the day they fall on
+ * (days without readings are skipped); sensor gaps are clipped into each day.
+ */
+export function groupReadingsByDay(
+  readings: GlucoseReading[],
+  events: GlucoseEvent[],
+  timeZone: string,
+  dayStartHour: number = 0
+): Map<string, DailyGlucoseData> {
+  const days = new Map<string, DailyGlucoseData>();
+  
+  for (const reading of readings) {
+    const dateKey = formatZonedDateKey(reading.timestamp.getTime(), timeZone, dayStartHour);
+    
+    if (!days.has(dateKey)) {
+      const { start, end } = getZonedDayBounds(dateKey, timeZone, dayStartHour);
+      days.set(dateKey, {
+        date: dateKey,
+        startTime: start,
+        endTime: end,
+        readings: [],
+        events: [],
+        gaps: [],
+        wavetable: null,
+        stats: { min: Infinity, max: -Infinity, avg: 0, timeInRange: 0 },
+        metrics: { ...EMPTY_GLUCOSE_METRICS },
+      });
+    }
+    
+    days.get(dateKey)!.readings.push(reading);
+  }
+  
+  for (const event of events) {
+    days.get(formatZonedDateKey(event.timestamp.getTime(), timeZone, dayStartHour))?.events.push(event);
+  }
+  
+  assignGaps(days, detectGaps(readings, days));
+  
+  // Calculate stats for each day
+  for (const [, dayData] of days) {
+    calculateDayStats(dayData);
+  }
+  
+  return days;
+}
+
+/**
+ * Cut an arbitrary time range out of the readings, with its own gaps and stats
+ * Readings and events must be sorted by time. Gaps are measured against the readings
+ * just outside the range, so a sensor outage spanning the range start still shows.
+ */
+export function buildTimeSlice(
+  readings: GlucoseReading[],
+  events: GlucoseEvent[],
+  start: number,
+  end: number,
+  date: string
+): DailyGlucoseData {
+  const first = findFirstReadingAt(readings, start);
+  let last = first;
+  while (last < readings.length && readings[last].timestamp.getTime() < end) last++;
+
+  const slice: DailyGlucoseData = {
+    date,
+    startTime: start,
+    endTime: end,
+    readings: readings.slice(first, last),
+    events: events.filter(e => e.timestamp.getTime() >= start && e.timestamp.getTime() < end),
+    gaps: [],
+    wavetable: null,
+    stats: { min: 0, max: 0, avg: 0, timeInRange: 0 },
+    metrics: { ...EMPTY_GLUCOSE_METRICS },
+  };
+
+  let previous = first > 0 ? readings[first - 1].timestamp.getTime() : start;
+  const next = last < readings.length ? readings[last].timestamp.getTime() : end;
+  for (const time of [...slice.readings.map(r => r.timestamp.getTime()), next]) {
+    if (time - previous > GAP_THRESHOLD_MS) {
+      const gapStart = Math.max(previous, start);
+      const gapEnd = Math.min(time, end);
+      if (gapEnd > gapStart) slice.gaps.push({ start: gapStart, end: gapEnd });
+    }
+    previous = time;
+  }
+
+  calculateDayStats(slice);
+  return slice;
+}
+
+/**
+ * Index of the first reading at or after an instant (binary search)
+ */
+function findFirstReadingAt(readings: GlucoseReading[], instant: number): number {
+  let lo = 0;
+  let hi = readings.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (readings[mid].timestamp.getTime() < instant) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Find spans without readings across the whole import
+ * Includes the stretch from the first day's midnight to the first reading and
+ * from the last reading to the last day's end, which cover sensor warm-up and removal
+ */
+function detectGaps(readings: GlucoseReading[], days: Map<string, DailyGlucoseData>): GlucoseGap[] {
+  const gaps: GlucoseGap[] = [];
+  if (readings.length === 0) return gaps;
+  
+  let rangeStart = Infinity;
+  let rangeEnd = -Infinity;
+  for (const [, day] of days) {
+    if (day.startTime < rangeStart) rangeStart = day.startTime;
+    if (day.endTime > rangeEnd) rangeEnd = day.endTime;
+  }
+  
+  let previous = rangeStart;
+  for (const reading of readings) {
+    const time = reading.timestamp.getTime();
+    if (time - previous > GAP_THRESHOLD_MS) {
+      gaps.push({ start: previous, end: time });
+    }
+    previous = time;
+  }
+  if (rangeEnd - previous > GAP_THRESHOLD_MS) {
+    gaps.push({ start: previous, end: rangeEnd });
+  }
+  
+  return gaps;
+}
+
+/**
+ * Clip gaps into the days they overlap
+ * A gap across midnight is recorded on both days, even if each piece is shorter than the threshold
+ */
+function assignGaps(days: Map<string, DailyGlucoseData>, gaps: GlucoseGap[]): void {
+  for (const [, day] of days) {
+    for (const gap of gaps) {
+      const start = Math.max(gap.start, day.startTime);
+      const end = Math.min(gap.end, day.endTime);
+      if (end > start) {
+        day.gaps.push({ start, end });
+      }
+    }
+  }
+}
+
+/**
+ * Calculate statistics and consensus metrics for a day's readings (gaps must already be assigned)
+ */
+function calculateDayStats(dayData: DailyGlucoseData): void {
+  const readings = dayData.readings;
+  
+  if (readings.length === 0) {
+    dayData.stats = { min: 0, max: 0, avg: 0, timeInRange: 0 };
+    dayData.metrics = { ...EMPTY_GLUCOSE_METRICS };
+    return;
+  }
+  
+  // Single pass - spreading large arrays into Math.min/max overflows the stack
+  let min = Infinity;
+  let max = -Infinity;
+  let sum = 0;
+  let inRange = 0;
+  const { targetLow, targetHigh } = getGlucoseTargets();
+  
+  for (const { value } of readings) {
+    if (value < min) min = value;
+    if (value > max) max = value;
+    sum += value;
+    // Time in the configured target range (70-180 mg/dL by default)
+    if (value >= targetLow && value <= targetHigh) inRange++;
+  }
+  
+  const avg = sum / readings.length;
+  const timeInRange = (inRange / readings.length) * 100;
+  
+  dayData.stats = { min, max, avg, timeInRange };
+  dayData.metrics = calculateGlucoseMetrics(dayData, getGlucoseTargets());
+}
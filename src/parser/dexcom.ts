@@ -0,0 +1,192 @@
+// Dexcom Clarity CSV Parser
+// Parses Dexcom G6/G7 exports downloaded from Clarity ("Export" → CSV)
+
+import type { GlucoseReading, GlucoseEvent, ParsedLibreViewData, ImportProgressCallback } from '../types';
+import { MGDL_PER_MMOL } from '../types';
+import { type CSVRow, parseCSVLine, parseTimestamp, detectUnit, detectDateOrder } from './csv-utils';
+import { groupReadingsByDay } from './day-grouping';
+import { DiagnosticsCollector } from './diagnostics';
+import { type ImportOptions, resolveTimeZone } from './import-options';
+import { mergeReadings } from './reading-merge';
+import { SourceRegistry } from './reading-sources';
+import { buildTimeWindows } from './time-windows';
+
+// Report progress every N rows
+const PROGRESS_INTERVAL = 5000;
+
+/**
+ * Check whether a CSV header line looks like a Clarity export
+ */
+export function isDexcomClarityHeader(line: string): boolean {
+  const lower = line.toLowerCase();
+  return lower.includes('event type') && lower.includes('glucose value');
+}
+
+/**
+ * Parse a Dexcom Clarity CSV export file
+ */
+export function parseDexcomClarityCSV(csvContent: string, options: ImportOptions, onProgress?: ImportProgressCallback): ParsedLibreViewData {
+  const timeZone = resolveTimeZone(options);
+  const lines = csvContent.trim().split(/\r?\n/);
+
+  // Clarity puts the header on the first line, but tolerate leading blank/BOM lines
+  let headerIndex = 0;
+  for (let i = 0; i < Math.min(10, lines.length); i++) {
+    if (isDexcomClarityHeader(lines[i])) {
+      headerIndex = i;
+      break;
+    }
+  }
+
+  const headers = parseCSVLine(lines[headerIndex]).map(h => h.trim());
+  const rows: CSVRow[] = [];
+  const rowLines: number[] = [];
+  const diagnostics = new DiagnosticsCollector('Dexcom Clarity CSV');
+  let totalRows = 0;
+
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (onProgress && i % PROGRESS_INTERVAL === 0) {
+      onProgress(0.6 * (i / lines.length));
+    }
+    if (!lines[i].trim()) continue;
+    totalRows++;
+    const values = parseCSVLine(lines[i]);
+    if (values.length === headers.length) {
+      const row: CSVRow = {};
+      headers.forEach((header, idx) => {
+        row[header] = values[idx]?.trim() || '';
+      });
+      rows.push(row);
+      rowLines.push(i + 1);
+    } else {
+      diagnostics.skip(i + 1, 'column-count', `${values.length} fields, expected ${headers.length}`);
+    }
+  }
+
+  const unit = detectUnit(headers);
+
+  const col = (prefix: string): string =>
+    headers.find(h => h.toLowerCase().startsWith(prefix)) ?? prefix;
+
+  const columns = {
+    timestamp: col('timestamp'),
+    eventType: col('event type'),
+    eventSubtype: col('event subtype'),
+    deviceInfo: col('device info'),
+    glucose: col('glucose value'),
+    insulin: col('insulin value'),
+    carbs: col('carb value'),
+    transmitterId: col('transmitter id'),
+  };
+
+  // Header rows (Device, FirstName, ...) carry metadata instead of readings.
+  // EGVs name their transmitter, which changes with every sensor on G7.
+  const deviceRow = rows.find(r => r[columns.eventType] === 'Device');
+  const deviceName = deviceRow?.[columns.deviceInfo] || 'Dexcom';
+  const sources = new SourceRegistry();
+
+  const readings: GlucoseReading[] = [];
+  const events: GlucoseEvent[] = [];
+
+  // Metadata rows have no timestamp; only event rows take part in date order detection
+  const dataRows = rows.filter(r => r[columns.timestamp]);
+  const dateOrder = detectDateOrder(dataRows.map(r => r[columns.timestamp]));
+
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    if (onProgress && i % PROGRESS_INTERVAL === 0) {
+      onProgress(0.6 + 0.35 * (i / rows.length));
+    }
+    const eventType = row[columns.eventType];
+    const subtype = row[columns.eventSubtype];
+
+    // Header rows (Device, FirstName, Alert settings, ...) are expected to have no timestamp
+    const timestamp = parseTimestamp(row[columns.timestamp], timeZone, dateOrder.order);
+    if (!timestamp) {
+      if (row[columns.timestamp]) {
+        diagnostics.skip(rowLines[i], 'invalid-timestamp', row[columns.timestamp]);
+      }
+      continue;
+    }
+
+    switch (eventType) {
+      case 'EGV': {
+        // "Low" / "High" are out-of-range markers, like LibreView's Lo/Hi
+        const glucose = row[columns.glucose];
+        if (glucose === 'Low' || glucose === 'High') {
+          diagnostics.skip(rowLines[i], 'out-of-range', glucose);
+          break;
+        }
+        const value = parseFloat(glucose);
+        if (isNaN(value)) {
+          diagnostics.skip(rowLines[i], 'invalid-value', glucose);
+          break;
+        }
+        readings.push({
+          timestamp,
+          value: unit === 'mmol/L' ? value * MGDL_PER_MMOL : value,
+          recordType: 0,
+          source: sources.add(deviceName, row[columns.transmitterId] ?? ''),
+        });
+        break;
+      }
+
+      case 'Calibration': {
+        const value = parseFloat(row[columns.glucose]);
+        if (isNaN(value)) break;
+        events.push({
+          timestamp,
+          type: 'strip-glucose',
+          value: unit === 'mmol/L' ? value * MGDL_PER_MMOL : value,
+        });
+        break;
+      }
+
+      case 'Insulin': {
+        const value = parseFloat(row[columns.insulin]);
+        events.push({
+          timestamp,
+          type: subtype === 'Long-Acting' ? 'long-insulin' : 'rapid-insulin',
+          value: isNaN(value) ? null : value,
+        });
+        break;
+      }
+
+      case 'Carbs': {
+        const value = parseFloat(row[columns.carbs]);
+        events.push({ timestamp, type: 'carbs', value: isNaN(value) ? null : value });
+        break;
+      }
+
+      case 'Health':
+      case 'Exercise':
+      case 'Notes':
+        events.push({
+          timestamp,
+          type: 'note',
+          value: null,
+          text: subtype ? `${eventType}: ${subtype}` : eventType,
+        });
+        break;
+    }
+  }
+
+  readings.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  events.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const merge = mergeReadings(readings, options.readingMerge);
+  diagnostics.recordMerge(merge.duplicates, merge.droppedScans);
+
+  const days = groupReadingsByDay(merge.readings, events, timeZone, options.dayStartHour);
+  onProgress?.(1);
+
+  return {
+    days,
+    unit,
+    timezone: timeZone,
+    windows: buildTimeWindows(days, timeZone, options),
+    sources: sources.sources,
+    records: { readings, events },
+    diagnostics: diagnostics.build(totalRows, days, dataRows.length > 0 ? dateOrder : null),
+  };
+}
@@ -0,0 +1,146 @@
+// Import Diagnostics
+// Collects skipped rows while an importer runs and summarizes the result per day
+
+import type {
+  DailyGlucoseData,
+  DateOrderDetection,
+  DayCoverage,
+  FileDiagnostics,
+  ImportDiagnostics,
+  SkippedRow,
+  SkipReason,
+} from '../types';
+
+// Only the first N skipped rows are kept (a broken 200k-row file would otherwise flood the report)
+export const MAX_REPORTED_SKIPS = 500;
+
+// Offending text is truncated to this many characters
+const MAX_DETAIL_LENGTH = 80;
+
+export class DiagnosticsCollector {
+  private format: string;
+  private duplicateReadings = 0;
+  private droppedScans = 0;
+  private skippedRows: SkippedRow[] = [];
+  private skippedByReason: Record<SkipReason, number> = {
+    'column-count': 0,
+    'invalid-timestamp': 0,
+    'invalid-value': 0,
+    'out-of-range': 0,
+  };
+
+  constructor(format: string) {
+    this.format = format;
+  }
+
+  /**
+   * Record a dropped row
+   */
+  skip(line: number, reason: SkipReason, detail: string): void {
+    this.skippedByReason[reason]++;
+    if (this.skippedRows.length < MAX_REPORTED_SKIPS) {
+      this.skippedRows.push({
+        line,
+        reason,
+        detail: detail.length > MAX_DETAIL_LENGTH ? detail.slice(0, MAX_DETAIL_LENGTH) + '…' : detail,
+      });
+    }
+  }
+
+  /**
+   * Record what the reading merge removed
+   */
+  recordMerge(duplicates: number, droppedScans: number): void {
+    this.duplicateReadings += duplicates;
+    this.droppedScans += droppedScans;
+  }
+
+  /**
+   * Build the final report once days are grouped
+   */
+  build(
+    totalRows: number,
+    days: Map<string, DailyGlucoseData>,
+    dateOrder: DateOrderDetection | null
+  ): ImportDiagnostics {
+    const file: FileDiagnostics = {
+      fileName: '',
+      format: this.format,
+      totalRows,
+      skippedRows: this.skippedRows,
+      skippedByReason: { ...this.skippedByReason },
+      dateOrder,
+    };
+
+    return {
+      files: [file],
+      ...countDayContents(days),
+      duplicateReadings: this.duplicateReadings,
+      droppedScans: this.droppedScans,
+      coverage: computeDayCoverage(days),
+    };
+  }
+}
+
+/**
+ * Combine per-file reports once the files' records are merged and regrouped
+ * duplicates/droppedScans are what the merge of the pooled readings removed (it replaces each file's own)
+ */
+export function combineDiagnostics(
+  parts: ImportDiagnostics[],
+  days: Map<string, DailyGlucoseData>,
+  duplicates: number,
+  droppedScans: number
+): ImportDiagnostics {
+  return {
+    files: parts.flatMap(part => part.files),
+    ...countDayContents(days),
+    duplicateReadings: duplicates,
+    droppedScans,
+    coverage: computeDayCoverage(days),
+  };
+}
+
+/**
+ * Count the readings and events that ended up in days
+ */
+function countDayContents(days: Map<string, DailyGlucoseData>): { readingCount: number; eventCount: number } {
+  let readingCount = 0;
+  let eventCount = 0;
+  for (const [, day] of days) {
+    readingCount += day.readings.length;
+    eventCount += day.events.length;
+  }
+  return { readingCount, eventCount };
+}
+
+/**
+ * Total number of skipped rows across all reasons (and all files)
+ */
+export function countSkippedRows(diagnostics: ImportDiagnostics | FileDiagnostics): number {
+  const files = 'files' in diagnostics ? diagnostics.files : [diagnostics];
+  return files.reduce(
+    (total, file) => total + Object.values(file.skippedByReason).reduce((a, b) => a + b, 0),
+    0
+  );
+}
+
+/**
+ * Per-day share of time covered by readings (everything outside sensor gaps)
+ */
+export function computeDayCoverage(days: Map<string, DailyGlucoseData>): DayCoverage[] {
+  const coverage: DayCoverage[] = [];
+
+  for (const [date, day] of days) {
+    const span = day.endTime - day.startTime;
+    const gapTime = day.gaps.reduce((sum, gap) => sum + (gap.end - gap.start), 0);
+    coverage.push({
+      date,
+      readings: day.readings.length,
+      coverage: span > 0 ? Math.max(0, 1 - gapTime / span) : 0,
+      gapMinutes: Math.round(gapTime / 60000),
+    });
+  }
+
+  return coverage.sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,96 @@
+// Display Unit
+// Unit glucose numbers are shown in (persisted in localStorage). Values stay in mg/dL
+// internally; only labels, stats and the target inputs are converted.
+
+import type { GlucoseUnit } from '../types';
+import { MGDL_PER_MMOL } from '../types';
+
+// 'auto' follows the unit detected in the loaded file
+export type DisplayUnitPreference = 'auto' | GlucoseUnit;
+
+export const DISPLAY_UNIT_OPTIONS: { value: DisplayUnitPreference; label: string }[] = [
+  { value: 'auto', label: 'Auto (file unit)' },
+  { value: 'mg/dL', label: 'mg/dL' },
+  { value: 'mmol/L', label: 'mmol/L' },
+];
+
+// Storage key for persisting the display unit preference
+export const DISPLAY_UNIT_STORAGE_KEY = 'glukoscillator-display-unit';
+
+// Unit in effect for the loaded data
+let currentUnit: GlucoseUnit = 'mg/dL';
+
+/**
+ * Get the unit glucose values are displayed in
+ */
+export function getDisplayUnit(): GlucoseUnit {
+  return currentUnit;
+}
+
+/**
+ * Set the unit glucose values are displayed in
+ */
+export function setDisplayUnit(unit: GlucoseUnit): void {
+  currentUnit = unit;
+}
+
+/**
+ * Resolve a preference against the loaded file's unit
+ */
+export function resolveDisplayUnit(preference: DisplayUnitPreference, dataUnit: GlucoseUnit): GlucoseUnit {
+  return preference === 'auto' ? dataUnit : preference;
+}
+
+/**
+ * Load the saved preference ('auto' when missing or invalid)
+ */
+export function loadDisplayUnitPreference(): DisplayUnitPreference {
+  try {
+    const saved = localStorage.getItem(DISPLAY_UNIT_STORAGE_KEY);
+    if (saved && DISPLAY_UNIT_OPTIONS.some(o => o.value === saved)) {
+      return saved as DisplayUnitPreference;
+    }
+  } catch (e) {
+    console.warn('Failed to load display unit:', e);
+  }
+  return 'auto';
+}
+
+/**
+ * Persist the preference
+ */
+export function saveDisplayUnitPreference(preference: DisplayUnitPreference): void {
+  try {
+    localStorage.setItem(DISPLAY_UNIT_STORAGE_KEY, preference);
+  } catch (e) {
+    console.warn('Failed to save display unit:', e);
+  }
+}
+
+/**
+ * Convert an mg/dL value to the display unit
+ */
+export function toDisplayUnit(mgdl: number, unit: GlucoseUnit = currentUnit): number {
+  return unit === 'mmol/L' ? mgdl / MGDL_PER_MMOL : mgdl;
+}
+
+/**
+ * Convert a value entered in the display unit back to mg/dL
+ */
+export function fromDisplayUnit(value: number, unit: GlucoseUnit = currentUnit): number {
+  return unit === 'mmol/L' ? value * MGDL_PER_MMOL : value;
+}
+
+/**
+ * Format an mg/dL value in the display unit ("126" or "7.0")
+ */
+export function formatGlucose(mgdl: number, unit: GlucoseUnit = currentUnit): string {
+  return unit === 'mmol/L' ? toDisplayUnit(mgdl, unit).toFixed(1) : String(Math.round(mgdl));
+}
+
+/**
+ * Format an mg/dL value with its unit ("126 mg/dL" or "7.0 mmol/L")
+ */
+export function formatGlucoseWithUnit(mgdl: number, unit: GlucoseUnit = currentUnit): string {
+  return `${formatGlucose(mgdl, unit)} ${unit}`;
+}
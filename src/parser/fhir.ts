@@ -0,0 +1,237 @@
+// FHIR Bundle Parser
+// Parses HL7 FHIR R4 Bundles of glucose Observations (LOINC-coded) exported by clinical systems
+
+import type { GlucoseReading, GlucoseEvent, GlucoseUnit, ParsedLibreViewData, ImportProgressCallback } from '../types';
+import { MGDL_PER_MMOL } from '../types';
+import { groupReadingsByDay } from './day-grouping';
+import { DiagnosticsCollector } from './diagnostics';
+import { type ImportOptions, resolveTimeZone } from './import-options';
+import { mergeReadings } from './reading-merge';
+import { SourceRegistry } from './reading-sources';
+import { buildTimeWindows } from './time-windows';
+import { zonedTimeToInstant } from './timezone';
+
+// Report progress every N entries
+const PROGRESS_INTERVAL = 5000;
+
+const LOINC_SYSTEM = 'http://loinc.org';
+
+// Glucose LOINC codes: unit the code is defined in, and whether it is a sensor or a meter value
+// Only interstitial fluid is CGM data; blood and serum/plasma are spot (lab) measurements like a meter's
+const GLUCOSE_CODES: Record<string, { unit: GlucoseUnit; kind: 'sensor' | 'meter' }> = {
+  '99504-3': { unit: 'mg/dL', kind: 'sensor' },   // Interstitial fluid (CGM)
+  '105272-9': { unit: 'mmol/L', kind: 'sensor' }, // Interstitial fluid (CGM)
+  '2339-0': { unit: 'mg/dL', kind: 'meter' },     // Blood
+  '15074-8': { unit: 'mmol/L', kind: 'meter' },   // Blood
+  '2345-7': { unit: 'mg/dL', kind: 'meter' },     // Serum or plasma
+  '14749-6': { unit: 'mmol/L', kind: 'meter' },   // Serum or plasma
+  '41653-7': { unit: 'mg/dL', kind: 'meter' },    // Capillary blood by glucometer
+  '14743-9': { unit: 'mmol/L', kind: 'meter' },   // Capillary blood by glucometer
+  '2340-8': { unit: 'mg/dL', kind: 'meter' },     // Blood by automated test strip
+};
+
+// Observations with these statuses were retracted and are left out
+const RETRACTED_STATUSES = ['entered-in-error', 'cancelled'];
+
+// FHIR dateTime: date, optional time, optional offset ("2025-11-24T08:15:00+01:00")
+const FHIR_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:\d{2})?$/;
+
+interface FHIRReference {
+  reference?: string;
+  display?: string;
+}
+
+interface FHIRObservation {
+  resourceType: 'Observation';
+  status?: string;
+  code?: { coding?: { system?: string; code?: string }[] };
+  valueQuantity?: { value?: number; unit?: string; code?: string };
+  effectiveDateTime?: string;
+  effectiveInstant?: string;
+  effectivePeriod?: { start?: string };
+  device?: FHIRReference;
+}
+
+interface FHIRDevice {
+  resourceType: 'Device';
+  id?: string;
+  deviceName?: { name?: string }[];
+  serialNumber?: string;
+}
+
+interface FHIRBundle {
+  resourceType: 'Bundle';
+  entry?: ({ fullUrl?: string; resource?: { resourceType?: string } } | null)[];
+}
+
+/**
+ * Check whether the start of a JSON file looks like a FHIR Bundle
+ */
+export function isFHIRBundle(head: string): boolean {
+  return head.trimStart().startsWith('{') && /"resourceType"\s*:\s*"Bundle"/.test(head);
+}
+
+/**
+ * Parse a FHIR R4 Bundle of glucose Observations
+ */
+export function parseFHIRBundle(jsonContent: string, options: ImportOptions, onProgress?: ImportProgressCallback): ParsedLibreViewData {
+  const timeZone = resolveTimeZone(options);
+  const bundle = JSON.parse(jsonContent) as Partial<FHIRBundle>;
+  if (bundle.resourceType !== 'Bundle' || !Array.isArray(bundle.entry)) {
+    throw new Error('Not a FHIR Bundle');
+  }
+  const entries = bundle.entry;
+  onProgress?.(0.3);
+
+  const readings: GlucoseReading[] = [];
+  const events: GlucoseEvent[] = [];
+  const diagnostics = new DiagnosticsCollector('FHIR Bundle');
+  const sources = new SourceRegistry();
+  const devices = collectDevices(entries);
+  const unitCounts: Record<GlucoseUnit, number> = { 'mg/dL': 0, 'mmol/L': 0 };
+  let observationCount = 0;
+
+  for (let i = 0; i < entries.length; i++) {
+    if (onProgress && i % PROGRESS_INTERVAL === 0) {
+      onProgress(0.3 + 0.65 * (i / entries.length));
+    }
+    const resource = entries[i]?.resource;
+    if (resource?.resourceType !== 'Observation') continue;
+    const observation = resource as FHIRObservation;
+
+    const code = findGlucoseCode(observation);
+    if (!code || RETRACTED_STATUSES.includes(observation.status ?? '')) continue;
+    observationCount++;
+
+    // Bundle entries are reported 1-based, like CSV line numbers
+    const effective = observation.effectiveDateTime ?? observation.effectiveInstant ?? observation.effectivePeriod?.start ?? '';
+    const timestamp = parseFHIRDateTime(effective, timeZone);
+    if (!timestamp) {
+      diagnostics.skip(i + 1, 'invalid-timestamp', effective);
+      continue;
+    }
+
+    const quantity = observation.valueQuantity;
+    const value = quantity?.value;
+    if (typeof value !== 'number' || !isFinite(value) || value <= 0) {
+      diagnostics.skip(i + 1, 'invalid-value', String(value));
+      continue;
+    }
+    // The quantity's own unit wins; the LOINC code's unit covers quantities without one
+    const unitText = quantity?.code || quantity?.unit;
+    const unit = unitText ? parseUnit(unitText) : code.unit;
+    if (!unit) {
+      diagnostics.skip(i + 1, 'invalid-value', `${value} ${unitText}`);
+      continue;
+    }
+    unitCounts[unit]++;
+    const mgdl = unit === 'mmol/L' ? value * MGDL_PER_MMOL : value;
+
+    if (code.kind === 'meter') {
+      events.push({ timestamp, type: 'strip-glucose', value: mgdl });
+      continue;
+    }
+
+    const device = resolveDevice(observation.device, devices);
+    readings.push({
+      timestamp,
+      value: mgdl,
+      recordType: 0,
+      source: sources.add(device.name || 'FHIR', device.serial),
+    });
+  }
+
+  readings.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  events.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const merge = mergeReadings(readings, options.readingMerge);
+  diagnostics.recordMerge(merge.duplicates, merge.droppedScans);
+
+  const days = groupReadingsByDay(merge.readings, events, timeZone, options.dayStartHour);
+  onProgress?.(1);
+
+  return {
+    days,
+    // Show values in the unit most observations were recorded in
+    unit: unitCounts['mmol/L'] > unitCounts['mg/dL'] ? 'mmol/L' : 'mg/dL',
+    timezone: timeZone,
+    windows: buildTimeWindows(days, timeZone, options),
+    sources: sources.sources,
+    records: { readings, events },
+    // ISO timestamps have no day/month ambiguity
+    diagnostics: diagnostics.build(observationCount, days, null),
+  };
+}
+
+/**
+ * Find the glucose LOINC coding of an Observation (null for other observations)
+ */
+function findGlucoseCode(observation: FHIRObservation): (typeof GLUCOSE_CODES)[string] | null {
+  for (const coding of observation.code?.coding ?? []) {
+    if (coding.system === LOINC_SYSTEM && coding.code && GLUCOSE_CODES[coding.code]) {
+      return GLUCOSE_CODES[coding.code];
+    }
+  }
+  return null;
+}
+
+/**
+ * Map a UCUM code or unit label to a glucose unit
+ */
+function parseUnit(unit: string): GlucoseUnit | null {
+  const normalized = unit.replace(/\s/g, '').toLowerCase();
+  if (normalized === 'mg/dl') return 'mg/dL';
+  if (normalized === 'mmol/l') return 'mmol/L';
+  return null;
+}
+
+/**
+ * Parse a FHIR dateTime; times without an offset are read in the import timezone
+ * Date-only values carry no time of day and are rejected
+ */
+function parseFHIRDateTime(value: string, timeZone: string): Date | null {
+  const match = value.match(FHIR_DATE_TIME);
+  if (!match) return null;
+
+  if (match[7]) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return zonedTimeToInstant({
+    year: parseInt(match[1]),
+    month: parseInt(match[2]) - 1,
+    day: parseInt(match[3]),
+    hour: parseInt(match[4]),
+    minute: parseInt(match[5]),
+    second: match[6] ? parseInt(match[6]) : 0,
+  }, timeZone);
+}
+
+/**
+ * Index the bundle's Device resources by the references Observations use ("Device/abc" or fullUrl)
+ */
+function collectDevices(entries: NonNullable<FHIRBundle['entry']>): Map<string, { name: string; serial: string }> {
+  const devices = new Map<string, { name: string; serial: string }>();
+  for (const entry of entries) {
+    if (entry?.resource?.resourceType !== 'Device') continue;
+    const device = entry.resource as FHIRDevice;
+    const info = { name: device.deviceName?.[0]?.name ?? '', serial: device.serialNumber ?? '' };
+    if (device.id) devices.set(`Device/${device.id}`, info);
+    if (entry.fullUrl) devices.set(entry.fullUrl, info);
+  }
+  return devices;
+}
+
+/**
+ * Name and serial of an Observation's device (the reference's display text when the bundle has no Device)
+ */
+function resolveDevice(
+  reference: FHIRReference | undefined,
+  devices: Map<string, { name: string; serial: string }>
+): { name: string; serial: string } {
+  const device = reference?.reference ? devices.get(reference.reference) : undefined;
+  return {
+    name: device?.name || reference?.display || '',
+    serial: device?.serial ?? '',
+  };
+}
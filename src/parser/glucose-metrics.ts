@@ -0,0 +1,199 @@
+// Glucose Metrics
+// International-consensus CGM metrics for a day or time window: GMI, variability, time below/above
+// range, MAGE, low/high blood glucose indices and data sufficiency. Range thresholds come from the
+// configured glucose targets (54 / 70 / 180 / 250 mg/dL by default).
+
+import type { DailyGlucoseData, GlucoseGap, GlucoseMetrics, GlucoseReading } from '../types';
+import type { GlucoseTargets } from './glucose-targets';
+import { formatGlucoseWithUnit } from './display-unit';
+
+// Consensus minimum share of the period with sensor data for the metrics to be reliable
+export const MIN_DATA_SUFFICIENCY = 70;
+
+export const EMPTY_GLUCOSE_METRICS: Readonly<GlucoseMetrics> = {
+  gmi: 0,
+  sd: 0,
+  cv: 0,
+  timeVeryLow: 0,
+  timeBelowRange: 0,
+  timeAboveRange: 0,
+  timeVeryHigh: 0,
+  mage: 0,
+  lbgi: 0,
+  hbgi: 0,
+  dataSufficiency: 0,
+};
+
+/**
+ * Compute the consensus metrics of a day or window
+ */
+export function calculateGlucoseMetrics(
+  source: Pick<DailyGlucoseData, 'readings' | 'gaps' | 'startTime' | 'endTime'>,
+  targets: GlucoseTargets
+): GlucoseMetrics {
+  const values = source.readings.map(r => r.value);
+  if (values.length === 0) return { ...EMPTY_GLUCOSE_METRICS };
+
+  let sum = 0;
+  let veryLow = 0;
+  let belowRange = 0;
+  let aboveRange = 0;
+  let veryHigh = 0;
+  let lowRisk = 0;
+  let highRisk = 0;
+  for (const value of values) {
+    sum += value;
+    if (value < targets.hypo) veryLow++;
+    if (value < targets.targetLow) belowRange++;
+    if (value > targets.targetHigh) aboveRange++;
+    if (value > targets.hyper) veryHigh++;
+
+    // Kovatchev risk: symmetrized glucose scale, negative below ~112 mg/dL
+    const f = 1.509 * (Math.pow(Math.log(Math.max(value, 1)), 1.084) - 5.381);
+    const risk = 10 * f * f;
+    if (f < 0) lowRisk += risk;
+    else highRisk += risk;
+  }
+
+  const count = values.length;
+  const mean = sum / count;
+  const sd = Math.sqrt(values.reduce((acc, v) => acc + (v - mean) * (v - mean), 0) / count);
+  const percent = (n: number) => (n / count) * 100;
+
+  const span = source.endTime - source.startTime;
+  const missing = source.gaps.reduce((acc, gap) => acc + (gap.end - gap.start), 0);
+
+  return {
+    gmi: 3.31 + 0.02392 * mean,
+    sd,
+    cv: mean > 0 ? (sd / mean) * 100 : 0,
+    timeVeryLow: percent(veryLow),
+    timeBelowRange: percent(belowRange),
+    timeAboveRange: percent(aboveRange),
+    timeVeryHigh: percent(veryHigh),
+    mage: calculateMAGE(values, sd),
+    lbgi: lowRisk / count,
+    hbgi: highRisk / count,
+    dataSufficiency: span > 0 ? Math.max(0, Math.min(100, ((span - missing) / span) * 100)) : 0,
+  };
+}
+
+/**
+ * Compute the consensus metrics of a period made of several sources (e.g. the days loaded into the oscillators)
+ * Readings and gaps are pooled, so every reading weighs the same whichever day it is from. A reading in
+ * two sources (the same day twice, a window inside a picked day) counts once.
+ */
+export function calculatePeriodMetrics(sources: DailyGlucoseData[], targets: GlucoseTargets): GlucoseMetrics {
+  if (sources.length === 0) return { ...EMPTY_GLUCOSE_METRICS };
+
+  const readings = new Map<number, GlucoseReading>();
+  for (const source of sources) {
+    for (const reading of source.readings) readings.set(reading.timestamp.getTime(), reading);
+  }
+  const spans = mergeIntervals(sources.map(source => ({ start: source.startTime, end: source.endTime })));
+  const gaps = mergeIntervals(sources.flatMap(source => source.gaps));
+
+  const metrics = calculateGlucoseMetrics({
+    readings: Array.from(readings.values()).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()),
+    gaps,
+    startTime: spans[0].start,
+    endTime: spans[spans.length - 1].end,
+  }, targets);
+
+  // Time between sources picked apart from each other is not part of the period
+  const covered = spans.reduce((acc, span) => acc + (span.end - span.start), 0);
+  const missing = gaps.reduce((acc, gap) => acc + (gap.end - gap.start), 0);
+  metrics.dataSufficiency = covered > 0 ? Math.max(0, Math.min(100, ((covered - missing) / covered) * 100)) : 0;
+  return metrics;
+}
+
+/**
+ * Sort intervals and join the overlapping ones
+ */
+function mergeIntervals(intervals: GlucoseGap[]): GlucoseGap[] {
+  const merged: GlucoseGap[] = [];
+  for (const interval of [...intervals].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+/**
+ * One-line summary for day lists ("GMI 6.4% · CV 31% · <70 3% · >180 18%")
+ */
+export function formatMetricsSummary(metrics: GlucoseMetrics): string {
+  return `GMI ${metrics.gmi.toFixed(1)}% · CV ${Math.round(metrics.cv)}% · ` +
+    `TBR ${Math.round(metrics.timeBelowRange)}% · TAR ${Math.round(metrics.timeAboveRange)}%`;
+}
+
+/**
+ * Full breakdown for tooltips, one metric per line
+ */
+export function formatMetricsDetail(metrics: GlucoseMetrics, targets: GlucoseTargets): string {
+  const sufficiency = `${Math.round(metrics.dataSufficiency)}%` +
+    (metrics.dataSufficiency < MIN_DATA_SUFFICIENCY ? ` (below ${MIN_DATA_SUFFICIENCY}%)` : '');
+  return [
+    `GMI: ${metrics.gmi.toFixed(1)}%`,
+    `CV: ${metrics.cv.toFixed(1)}% (SD ${formatGlucoseWithUnit(metrics.sd)})`,
+    `Below ${formatGlucoseWithUnit(targets.hypo)}: ${metrics.timeVeryLow.toFixed(1)}%`,
+    `Below ${formatGlucoseWithUnit(targets.targetLow)}: ${metrics.timeBelowRange.toFixed(1)}%`,
+    `Above ${formatGlucoseWithUnit(targets.targetHigh)}: ${metrics.timeAboveRange.toFixed(1)}%`,
+    `Above ${formatGlucoseWithUnit(targets.hyper)}: ${metrics.timeVeryHigh.toFixed(1)}%`,
+    `MAGE: ${formatGlucoseWithUnit(metrics.mage)}`,
+    `LBGI / HBGI: ${metrics.lbgi.toFixed(1)} / ${metrics.hbgi.toFixed(1)}`,
+    `Data sufficiency: ${sufficiency}`,
+  ].join('\n');
+}
+
+/**
+ * Mean amplitude of glycemic excursions: the average rise or fall between successive
+ * peaks and nadirs, counting only swings larger than one standard deviation
+ */
+function calculateMAGE(values: number[], sd: number): number {
+  if (values.length < 3 || sd === 0) return 0;
+
+  const excursions: number[] = [];
+  let trend = 0;           // 1 rising, -1 falling, 0 until the first swing exceeds the SD
+  let turn = values[0];    // last confirmed peak or nadir
+  let extreme = values[0]; // furthest value reached since the last turn
+  let low = values[0];
+  let high = values[0];
+
+  for (const value of values) {
+    if (trend === 0) {
+      low = Math.min(low, value);
+      high = Math.max(high, value);
+      if (high - low > sd) {
+        trend = value === high ? 1 : -1;
+        turn = trend === 1 ? low : high;
+        extreme = value;
+      }
+    } else if (trend === 1) {
+      if (value > extreme) {
+        extreme = value;
+      } else if (extreme - value > sd) {
+        excursions.push(extreme - turn);
+        turn = extreme;
+        extreme = value;
+        trend = -1;
+      }
+    } else if (value < extreme) {
+      extreme = value;
+    } else if (value - extreme > sd) {
+      excursions.push(turn - extreme);
+      turn = extreme;
+      extreme = value;
+      trend = 1;
+    }
+  }
+
+  // The last swing counts if it got far enough
+  if (trend !== 0 && Math.abs(extreme - turn) > sd) excursions.push(Math.abs(extreme - turn));
+
+  return excursions.length > 0 ? excursions.reduce((a, b) => a + b, 0) / excursions.length : 0;
+}
@@ -0,0 +1,134 @@
+// Glucose Targets
+// User-configurable target range and hypo/hyper thresholds (persisted in localStorage).
+// Time in range, day badges, waveform bands and glucose-driven sound mapping all read the current targets.
+
+import type { DailyGlucoseData, GlucoseReading, ParsedLibreViewData } from '../types';
+import { calculateGlucoseMetrics } from './glucose-metrics';
+
+export interface GlucoseTargets {
+  targetLow: number;  // mg/dL, lower bound of the target range
+  targetHigh: number; // mg/dL, upper bound of the target range
+  hypo: number;       // mg/dL, below this is a significant low
+  hyper: number;      // mg/dL, above this is a significant high
+  tirGood: number;    // % time in range badged as good
+  tirFair: number;    // % time in range badged as fair (below is poor)
+}
+
+export type TimeInRangeClass = 'good' | 'warning' | 'bad';
+
+export const DEFAULT_GLUCOSE_TARGETS: GlucoseTargets = {
+  targetLow: 70,
+  targetHigh: 180,
+  hypo: 54,
+  hyper: 250,
+  tirGood: 70,
+  tirFair: 50,
+};
+
+// Published consensus targets offered in the settings dialog
+export const GLUCOSE_TARGET_PRESETS: { name: string; targets: GlucoseTargets }[] = [
+  { name: 'Standard', targets: DEFAULT_GLUCOSE_TARGETS },
+  { name: 'Pregnancy', targets: { targetLow: 63, targetHigh: 140, hypo: 54, hyper: 250, tirGood: 70, tirFair: 50 } },
+  { name: 'Older / high-risk', targets: { targetLow: 70, targetHigh: 180, hypo: 54, hyper: 250, tirGood: 50, tirFair: 30 } },
+];
+
+// Thresholds outside this span are rejected (mg/dL)
+const THRESHOLD_LIMITS = { min: 20, max: 600 };
+
+// Storage key for persisting glucose targets
+export const GLUCOSE_TARGETS_STORAGE_KEY = 'glukoscillator-glucose-targets';
+
+// Targets in effect (the import worker receives a copy with each request)
+let currentTargets: GlucoseTargets = { ...DEFAULT_GLUCOSE_TARGETS };
+
+/**
+ * Get the targets in effect
+ */
+export function getGlucoseTargets(): GlucoseTargets {
+  return currentTargets;
+}
+
+/**
+ * Replace the targets in effect (not persisted; see saveGlucoseTargets)
+ */
+export function setGlucoseTargets(targets: GlucoseTargets): void {
+  currentTargets = { ...targets };
+}
+
+/**
+ * Check that thresholds are ordered hypo < low < high < hyper and badge levels fair < good
+ */
+export function isValidGlucoseTargets(value: unknown): value is GlucoseTargets {
+  const t = value as Partial<GlucoseTargets> | null;
+  if (!t) return false;
+  const numbers = [t.targetLow, t.targetHigh, t.hypo, t.hyper, t.tirGood, t.tirFair];
+  if (!numbers.every(n => typeof n === 'number' && isFinite(n))) return false;
+
+  const { targetLow, targetHigh, hypo, hyper, tirGood, tirFair } = t as GlucoseTargets;
+  return hypo >= THRESHOLD_LIMITS.min && hypo < targetLow && targetLow < targetHigh &&
+    targetHigh < hyper && hyper <= THRESHOLD_LIMITS.max &&
+    tirFair >= 0 && tirFair < tirGood && tirGood <= 100;
+}
+
+/**
+ * Load saved targets (defaults when missing or invalid)
+ */
+export function loadGlucoseTargets(): GlucoseTargets {
+  try {
+    const saved = localStorage.getItem(GLUCOSE_TARGETS_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as unknown;
+      if (isValidGlucoseTargets(parsed)) {
+        return { ...parsed };
+      }
+    }
+  } catch (e) {
+    console.warn('Failed to load glucose targets:', e);
+  }
+  return { ...DEFAULT_GLUCOSE_TARGETS };
+}
+
+/**
+ * Persist targets
+ */
+export function saveGlucoseTargets(targets: GlucoseTargets): void {
+  try {
+    localStorage.setItem(GLUCOSE_TARGETS_STORAGE_KEY, JSON.stringify(targets));
+  } catch (e) {
+    console.warn('Failed to save glucose targets:', e);
+  }
+}
+
+/**
+ * Percentage of readings inside the target range
+ */
+export function calculateTimeInRange(readings: GlucoseReading[], targets: GlucoseTargets = currentTargets): number {
+  if (readings.length === 0) return 0;
+
+  let inRange = 0;
+  for (const { value } of readings) {
+    if (value >= targets.targetLow && value <= targets.targetHigh) inRange++;
+  }
+  return (inRange / readings.length) * 100;
+}
+
+/**
+ * Recompute time in range and the range-based metrics for every day and window after the targets change
+ */
+export function applyGlucoseTargets(data: ParsedLibreViewData, targets: GlucoseTargets = currentTargets): void {
+  const update = (source: DailyGlucoseData) => {
+    source.stats.timeInRange = calculateTimeInRange(source.readings, targets);
+    source.metrics = calculateGlucoseMetrics(source, targets);
+  };
+  data.days.forEach(update);
+  data.windows.forEach(update);
+}
+
+/**
+ * Badge class for a time-in-range percentage
+ */
+export function getTimeInRangeClass(timeInRange: number, targets: GlucoseTargets = currentTargets): TimeInRangeClass {
+  if (timeInRange >= targets.tirGood) return 'good';
+  if (timeInRange >= targets.tirFair) return 'warning';
+  return 'bad';
+}
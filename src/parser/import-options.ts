@@ -0,0 +1,102 @@
+// Import Options
+// User-selectable settings applied when parsing an export (persisted in localStorage)
+
+import type { GapFillPolicy, ReadingMergeStrategy } from '../types';
+import { getLocalTimeZone, isValidTimeZone } from './timezone';
+
+export interface ImportOptions {
+  // IANA timezone the export was recorded in ('auto' = this browser's zone)
+  timezone: string;
+  // How sensor gaps are filled in generated wavetables
+  gapFill: GapFillPolicy;
+  // Which record types (historic / scan) make up the curve
+  readingMerge: ReadingMergeStrategy;
+  // Hour (0-23) at which a day starts, so nights aren't split at midnight
+  dayStartHour: number;
+  // Nightly sleep period in minutes after local midnight (end < start crosses midnight); null = no sleep windows
+  sleepWindow: { start: number; end: number } | null;
+  // Length of the window after each carb entry; 0 = no post-meal windows
+  postMealHours: number;
+}
+
+export const DEFAULT_IMPORT_OPTIONS: ImportOptions = {
+  timezone: 'auto',
+  gapFill: 'linear',
+  readingMerge: 'historic-scans',
+  dayStartHour: 0,
+  sleepWindow: null,
+  postMealHours: 0,
+};
+
+export const POST_MEAL_HOURS = [0, 2, 3, 4, 6];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export const GAP_FILL_POLICIES: GapFillPolicy[] = ['hold', 'linear', 'spline', 'silence'];
+
+export const READING_MERGE_STRATEGIES: ReadingMergeStrategy[] = ['historic', 'historic-scans', 'scans-interpolated'];
+
+// Storage key for persisting import options
+export const IMPORT_OPTIONS_STORAGE_KEY = 'glukoscillator-import-options';
+
+/**
+ * Load saved import options, falling back to defaults for missing/invalid fields
+ */
+export function loadImportOptions(): ImportOptions {
+  const options = { ...DEFAULT_IMPORT_OPTIONS };
+  try {
+    const saved = localStorage.getItem(IMPORT_OPTIONS_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as Partial<ImportOptions>;
+      if (typeof parsed.timezone === 'string' &&
+          (parsed.timezone === 'auto' || isValidTimeZone(parsed.timezone))) {
+        options.timezone = parsed.timezone;
+      }
+      if (parsed.gapFill && GAP_FILL_POLICIES.includes(parsed.gapFill)) {
+        options.gapFill = parsed.gapFill;
+      }
+      if (parsed.readingMerge && READING_MERGE_STRATEGIES.includes(parsed.readingMerge)) {
+        options.readingMerge = parsed.readingMerge;
+      }
+      if (Number.isInteger(parsed.dayStartHour) && parsed.dayStartHour! >= 0 && parsed.dayStartHour! < 24) {
+        options.dayStartHour = parsed.dayStartHour!;
+      }
+      if (parsed.sleepWindow === null || isMinuteRange(parsed.sleepWindow)) {
+        options.sleepWindow = parsed.sleepWindow;
+      }
+      if (typeof parsed.postMealHours === 'number' && POST_MEAL_HOURS.includes(parsed.postMealHours)) {
+        options.postMealHours = parsed.postMealHours;
+      }
+    }
+  } catch (e) {
+    console.warn('Failed to load import options:', e);
+  }
+  return options;
+}
+
+/**
+ * Check a stored sleep window: two distinct minute offsets within a day
+ */
+function isMinuteRange(value: unknown): value is { start: number; end: number } {
+  const range = value as { start?: unknown; end?: unknown } | null;
+  const isMinute = (m: unknown): m is number => Number.isInteger(m) && (m as number) >= 0 && (m as number) < MINUTES_PER_DAY;
+  return !!range && isMinute(range.start) && isMinute(range.end) && range.start !== range.end;
+}
+
+/**
+ * Persist import options
+ */
+export function saveImportOptions(options: ImportOptions): void {
+  try {
+    localStorage.setItem(IMPORT_OPTIONS_STORAGE_KEY, JSON.stringify(options));
+  } catch (e) {
+    console.warn('Failed to save import options:', e);
+  }
+}
+
+/**
+ * Resolve the concrete IANA timezone to parse with
+ */
+export function resolveTimeZone(options: ImportOptions): string {
+  return options.timezone === 'auto' ? getLocalTimeZone() : options.timezone;
+}
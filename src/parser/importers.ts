@@ -0,0 +1,196 @@
+// Importer Registry
+// Sniffs an uploaded file and dispatches to the matching format parser.
+// Every importer returns ParsedLibreViewData, so wavetable generation and UI stay format-agnostic.
+
+import type { ParsedLibreViewData, ImportProgressCallback } from '../types';
+import type { ImportOptions } from './import-options';
+import { parseLibreViewCSV } from './libreview';
+import { parseDexcomClarityCSV, isDexcomClarityHeader } from './dexcom';
+import { parseNightscoutJSON, isNightscoutEntries } from './nightscout';
+import { parseFHIRBundle, isFHIRBundle } from './fhir';
+import { parseAppleHealthXML, streamAppleHealthXML, isAppleHealthExport } from './apple-health';
+import { parseMappedCSV } from './mapped-csv';
+import { PROJECT_FILE_EXTENSION, parseProjectFile, isProjectFile } from './project-file';
+import type { ColumnMapping } from './column-mapping';
+
+// Number of characters handed to detect() when sniffing a file
+const SNIFF_LENGTH = 4096;
+
+export interface GlucoseImporter {
+  id: string;
+  name: string;
+  extensions: string[]; // lowercase, including the dot
+  /**
+   * Return true if this importer recognizes the file
+   * head is the first few KB of the file content
+   */
+  detect(head: string, fileName: string): boolean;
+  parse(content: string, options: ImportOptions, onProgress?: ImportProgressCallback): ParsedLibreViewData;
+  /**
+   * Optional: parse straight from the file without reading it into one string (for very large exports)
+   */
+  parseStream?(file: Blob, options: ImportOptions, onProgress?: ImportProgressCallback): Promise<ParsedLibreViewData>;
+}
+
+const importers: GlucoseImporter[] = [];
+
+/**
+ * Register an importer (later registrations are tried after earlier ones)
+ */
+export function registerImporter(importer: GlucoseImporter): void {
+  if (importers.some(i => i.id === importer.id)) {
+    console.warn(`Importer "${importer.id}" is already registered`);
+    return;
+  }
+  importers.push(importer);
+}
+
+/**
+ * Get all registered importers
+ */
+export function getImporters(): readonly GlucoseImporter[] {
+  return importers;
+}
+
+/**
+ * Get all file extensions accepted by registered importers
+ */
+export function getAcceptedExtensions(): string[] {
+  return Array.from(new Set(importers.flatMap(i => i.extensions)));
+}
+
+/**
+ * Get the lowercase extension (with dot) of a file name
+ */
+function getExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot >= 0 ? fileName.slice(dot).toLowerCase() : '';
+}
+
+/**
+ * Check if a file name has an extension some importer accepts
+ */
+export function isSupportedFile(fileName: string): boolean {
+  return getAcceptedExtensions().includes(getExtension(fileName));
+}
+
+/**
+ * Find the importer for a file by sniffing its content
+ * Falls back to the first importer accepting the extension (LibreView for .csv)
+ */
+export function findImporter(content: string, fileName: string): GlucoseImporter | null {
+  const head = content.slice(0, SNIFF_LENGTH);
+  const ext = getExtension(fileName);
+  const candidates = importers.filter(i => i.extensions.includes(ext));
+
+  return candidates.find(i => i.detect(head, fileName)) ?? candidates[0] ?? null;
+}
+
+/**
+ * Parse a glucose export of any registered format
+ * With a column mapping the file is read as a mapped CSV instead of being sniffed.
+ * Throws ColumnMappingRequiredError when a CSV's columns can't be found.
+ */
+export function parseGlucoseFile(
+  content: string,
+  fileName: string,
+  options: ImportOptions,
+  onProgress?: ImportProgressCallback,
+  mapping?: ColumnMapping
+): ParsedLibreViewData {
+  let data: ParsedLibreViewData;
+  if (mapping) {
+    console.log(`Importing ${fileName} with a column mapping`);
+    data = parseMappedCSV(content, mapping, options, onProgress);
+  } else {
+    const importer = findImporter(content, fileName);
+    if (!importer) {
+      throw new Error(`Unsupported file type: ${fileName}`);
+    }
+    console.log(`Importing ${fileName} as ${importer.name}`);
+    data = importer.parse(content, options, onProgress);
+  }
+
+  for (const file of data.diagnostics.files) {
+    file.fileName = fileName;
+  }
+  return data;
+}
+
+/**
+ * Parse a glucose export from a file
+ * Importers that can stream read the file in chunks; the others get its whole text.
+ */
+export async function parseGlucoseBlob(
+  file: Blob,
+  fileName: string,
+  options: ImportOptions,
+  onProgress?: ImportProgressCallback,
+  mapping?: ColumnMapping
+): Promise<ParsedLibreViewData> {
+  if (!mapping) {
+    const importer = findImporter(await file.slice(0, SNIFF_LENGTH).text(), fileName);
+    if (importer?.parseStream) {
+      console.log(`Streaming ${fileName} as ${importer.name}`);
+      const data = await importer.parseStream(file, options, onProgress);
+      for (const fileDiagnostics of data.diagnostics.files) {
+        fileDiagnostics.fileName = fileName;
+      }
+      return data;
+    }
+  }
+  return parseGlucoseFile(await file.text(), fileName, options, onProgress, mapping);
+}
+
+// Built-in importers (sniffed in this order; LibreView is the .csv fallback)
+registerImporter({
+  id: 'libreview',
+  name: 'LibreView CSV',
+  extensions: ['.csv'],
+  detect: (head) => {
+    const lower = head.toLowerCase();
+    return lower.includes('device timestamp') || lower.includes('historic glucose');
+  },
+  parse: parseLibreViewCSV,
+});
+
+registerImporter({
+  id: 'dexcom-clarity',
+  name: 'Dexcom Clarity CSV',
+  extensions: ['.csv'],
+  detect: (head) => head.split(/\r?\n/, 10).some(isDexcomClarityHeader),
+  parse: parseDexcomClarityCSV,
+});
+
+registerImporter({
+  id: 'nightscout',
+  name: 'Nightscout entries.json',
+  extensions: ['.json'],
+  detect: isNightscoutEntries,
+  parse: parseNightscoutJSON,
+});
+
+registerImporter({
+  id: 'fhir-bundle',
+  name: 'FHIR Observation Bundle',
+  extensions: ['.json'],
+  detect: isFHIRBundle,
+  parse: parseFHIRBundle,
+});
+
+registerImporter({
+  id: 'apple-health',
+  name: 'Apple Health export.xml',
+  extensions: ['.xml'],
+  detect: isAppleHealthExport,
+  parse: parseAppleHealthXML,
+  parseStream: streamAppleHealthXML,
+});
+
+registerImporter({
+  id: 'glukoscillator-project',
+  name: 'Glukoscillator project',
+  extensions: [PROJECT_FILE_EXTENSION],
+  detect: isProjectFile,
+  parse: parseProjectFile,
+});
@@ -1,16 +1,26 @@
 // LibreView CSV Parser
 // Parses FreeStyle Libre 3 glucose data exports
 
-import type { GlucoseReading, DailyGlucoseData, ParsedLibreViewData } from '../types';
+import type { GlucoseReading, GlucoseEvent, GlucoseEventType, GlucoseUnit, ParsedLibreViewData, ImportProgressCallback } from '../types';
+import { MGDL_PER_MMOL } from '../types';
+import { type CSVRow, parseCSVLine, parseTimestamp, detectUnit, detectDateOrder } from './csv-utils';
+import { groupReadingsByDay } from './day-grouping';
+import { DiagnosticsCollector } from './diagnostics';
+import { type ImportOptions, resolveTimeZone } from './import-options';
+import { mergeReadings } from './reading-merge';
+import { ColumnMappingRequiredError, buildCSVPreview } from './column-mapping';
+import { SourceRegistry } from './reading-sources';
+import { buildTimeWindows } from './time-windows';
+import { formatRelativeDay, isRelativeTimeline } from './relative-timeline';
 
-interface CSVRow {
-  [key: string]: string;
-}
+// Report progress every N rows (keeps worker messages cheap on 200k-row files)
+const PROGRESS_INTERVAL = 5000;
 
 /**
  * Parse a LibreView CSV export file
  */
-export function parseLibreViewCSV(csvContent: string): ParsedLibreViewData {
+export function parseLibreViewCSV(csvContent: string, options: ImportOptions, onProgress?: ImportProgressCallback): ParsedLibreViewData {
+  const timeZone = resolveTimeZone(options);
   const lines = csvContent.trim().split(/\r?\n/);
   
   // LibreView CSVs have metadata rows before the header
@@ -24,9 +34,27 @@ export function parseLibreViewCSV(csvContent: string): ParsedLibreViewData {
   }
   
   const headers = parseCSVLine(lines[headerIndex]);
+  
+  // Localized or unfamiliar layouts go to the column-mapping wizard instead of yielding nothing
+  const trimmedHeaders = headers.map(h => h.trim());
+  const timestampCol = findTimestampColumn(trimmedHeaders);
+  const glucoseColumns = findGlucoseColumns(trimmedHeaders);
+  if (!timestampCol || (!glucoseColumns.historic && !glucoseColumns.scan)) {
+    throw new ColumnMappingRequiredError(buildCSVPreview(csvContent));
+  }
+  
   const rows: CSVRow[] = [];
+  const rowLines: number[] = [];
+  const diagnostics = new DiagnosticsCollector('LibreView CSV');
+  let totalRows = 0;
   
   for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (onProgress && i % PROGRESS_INTERVAL === 0) {
+      // Row splitting is the bulk of the work
+      onProgress(0.6 * (i / lines.length));
+    }
+    if (!lines[i].trim()) continue;
+    totalRows++;
     const values = parseCSVLine(lines[i]);
     if (values.length === headers.length) {
       const row: CSVRow = {};
@@ -34,102 +62,74 @@ export function parseLibreViewCSV(csvContent: string): ParsedLibreViewData {
         row[header.trim()] = values[idx]?.trim() || '';
       });
       rows.push(row);
+      rowLines.push(i + 1);
+    } else {
+      diagnostics.skip(i + 1, 'column-count', `${values.length} fields, expected ${headers.length}`);
     }
   }
   
   // Detect unit from header
   const unit = detectUnit(headers);
   
-  // Extract device info from first data row
-  const deviceName = rows[0]?.['Device'] || 'Unknown Device';
-  const serialNumber = rows[0]?.['Serial Number'] || '';
+  // Parse every row's timestamp once, using the day/month order seen across the file
+  const dateOrder = detectDateOrder(rows.map(r => r[timestampCol]));
+  const timestamps = rows.map((row, i) => {
+    const timestamp = parseTimestamp(row[timestampCol], timeZone, dateOrder.order);
+    if (!timestamp) {
+      diagnostics.skip(rowLines[i], 'invalid-timestamp', row[timestampCol]);
+    }
+    return timestamp;
+  });
+  onProgress?.(0.75);
+  
+  // Parse glucose readings, then combine historic and scan records per the merge strategy
+  // Every row names its reader; a file can span several sensors/devices
+  const sources = new SourceRegistry();
+  const parsedReadings = parseGlucoseReadings(rows, rowLines, timestamps, glucoseColumns, unit, sources, diagnostics);
+  const merge = mergeReadings(parsedReadings, options.readingMerge);
+  diagnostics.recordMerge(merge.duplicates, merge.droppedScans);
+  const readings = merge.readings;
+  onProgress?.(0.85);
   
-  // Parse glucose readings
-  const readings = parseGlucoseReadings(rows, unit);
+  // Parse insulin, carbs, notes, strip and ketone entries
+  const events = parseEvents(rows, timestamps, trimmedHeaders, unit);
   
   // Group by day
-  const days = groupReadingsByDay(readings);
+  const days = groupReadingsByDay(readings, events, timeZone, options.dayStartHour);
+  onProgress?.(1);
   
   return {
     days,
     unit,
-    deviceName,
-    serialNumber,
+    timezone: timeZone,
+    windows: buildTimeWindows(days, timeZone, options),
+    sources: sources.sources,
+    records: { readings: parsedReadings, events },
+    diagnostics: diagnostics.build(totalRows, days, dateOrder),
   };
 }
 
-/**
- * Parse a single CSV line, handling quoted fields
- */
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    
-    if (char === '"') {
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      result.push(current);
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-  result.push(current);
-  
-  return result;
-}
-
-/**
- * Detect glucose unit from CSV headers
- */
-function detectUnit(headers: string[]): 'mg/dL' | 'mmol/L' {
-  const headerStr = headers.join(' ').toLowerCase();
-  if (headerStr.includes('mmol/l')) {
-    return 'mmol/L';
-  }
-  return 'mg/dL';
+interface GlucoseColumns {
+  historic: string | null; // automatic readings (record type 0)
+  scan: string | null;     // manual scans (record type 1)
 }
 
 /**
- * Find the glucose column name (varies by region/export)
+ * Find the historic and scan glucose columns (names vary by region/export)
  */
-function findGlucoseColumn(row: CSVRow): string | null {
-  const possibleColumns = [
-    'Historic Glucose mg/dL',
-    'Historic Glucose mmol/L',
-    'Scan Glucose mg/dL',
-    'Scan Glucose mmol/L',
-    'Historic Glucose (mg/dL)',
-    'Historic Glucose (mmol/L)',
-  ];
-  
-  for (const col of possibleColumns) {
-    if (col in row && row[col]) {
-      return col;
-    }
-  }
-  
-  // Try partial match
-  for (const key of Object.keys(row)) {
-    if (key.toLowerCase().includes('historic glucose') && row[key]) {
-      return key;
-    }
-    if (key.toLowerCase().includes('scan glucose') && row[key]) {
-      return key;
-    }
-  }
+function findGlucoseColumns(headers: string[]): GlucoseColumns {
+  const find = (kind: 'historic' | 'scan'): string | null =>
+    headers.find(h => h.toLowerCase().startsWith(`${kind} glucose`)) ??
+    headers.find(h => h.toLowerCase().includes(`${kind} glucose`)) ??
+    null;
   
-  return null;
+  return { historic: find('historic'), scan: find('scan') };
 }
 
 /**
  * Find the timestamp column name
  */
-function findTimestampColumn(row: CSVRow): string | null {
+function findTimestampColumn(headers: string[]): string | null {
   const possibleColumns = [
     'Device Timestamp',
     'Timestamp',
@@ -138,57 +138,67 @@ function findTimestampColumn(row: CSVRow): string | null {
   ];
   
   for (const col of possibleColumns) {
-    if (col in row) {
+    if (headers.includes(col)) {
       return col;
     }
   }
   
-  for (const key of Object.keys(row)) {
-    if (key.toLowerCase().includes('timestamp')) {
-      return key;
-    }
-  }
-  
-  return null;
+  return headers.find(h => h.toLowerCase().includes('timestamp')) ?? null;
 }
 
 /**
  * Parse glucose readings from CSV rows
+ * A row is a historic reading if its historic column is filled, otherwise a scan if the scan column is.
+ * Rows without a glucose value (events, sensor starts) are not readings and not reported.
  */
-function parseGlucoseReadings(rows: CSVRow[], unit: 'mg/dL' | 'mmol/L'): GlucoseReading[] {
+function parseGlucoseReadings(
+  rows: CSVRow[],
+  rowLines: number[],
+  timestamps: (Date | null)[],
+  columns: GlucoseColumns,
+  unit: GlucoseUnit,
+  sources: SourceRegistry,
+  diagnostics: DiagnosticsCollector
+): GlucoseReading[] {
   const readings: GlucoseReading[] = [];
   
-  if (rows.length === 0) return readings;
-  
-  const timestampCol = findTimestampColumn(rows[0]);
-  
-  for (const row of rows) {
-    const glucoseCol = findGlucoseColumn(row);
-    if (!glucoseCol || !timestampCol) continue;
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    const timestamp = timestamps[i];
+    if (!timestamp) continue;
     
-    const valueStr = row[glucoseCol];
-    const timestampStr = row[timestampCol];
+    let recordType: number;
+    let valueStr: string;
+    if (columns.historic && row[columns.historic]) {
+      recordType = 0;
+      valueStr = row[columns.historic];
+    } else if (columns.scan && row[columns.scan]) {
+      recordType = 1;
+      valueStr = row[columns.scan];
+    } else {
+      continue;
+    }
     
-    // Skip invalid readings (Lo, Hi, or empty)
-    if (!valueStr || valueStr === 'Lo' || valueStr === 'Hi') continue;
+    // Lo/Hi mark readings outside the sensor's range
+    if (valueStr === 'Lo' || valueStr === 'Hi') {
+      diagnostics.skip(rowLines[i], 'out-of-range', valueStr);
+      continue;
+    }
     
     const value = parseFloat(valueStr);
-    if (isNaN(value)) continue;
+    if (isNaN(value)) {
+      diagnostics.skip(rowLines[i], 'invalid-value', valueStr);
+      continue;
+    }
     
     // Convert mmol/L to mg/dL for internal consistency
-    const normalizedValue = unit === 'mmol/L' ? value * 18.0182 : value;
-    
-    // Parse timestamp
-    const timestamp = parseTimestamp(timestampStr);
-    if (!timestamp) continue;
-    
-    // Determine record type
-    const recordType = glucoseCol.toLowerCase().includes('scan') ? 1 : 0;
+    const normalizedValue = unit === 'mmol/L' ? value * MGDL_PER_MMOL : value;
     
     readings.push({
       timestamp,
       value: normalizedValue,
       recordType,
+      source: sources.add(row['Device'] ?? '', row['Serial Number'] ?? ''),
     });
   }
   
@@ -198,125 +208,114 @@ function parseGlucoseReadings(rows: CSVRow[], unit: 'mg/dL' | 'mmol/L'): Glucose
   return readings;
 }
 
+// Event columns, matched case-insensitively against header names.
+// Numeric columns are tried first; the non-numeric twin supplies text.
+interface EventColumnSpec {
+  type: GlucoseEventType;
+  numeric: (header: string) => boolean;
+  text?: (header: string) => boolean;
+}
+
+const EVENT_COLUMNS: EventColumnSpec[] = [
+  {
+    type: 'rapid-insulin',
+    numeric: h => h.includes('rapid-acting insulin') && !h.includes('non-numeric'),
+    text: h => h.includes('rapid-acting insulin') && h.includes('non-numeric'),
+  },
+  {
+    type: 'long-insulin',
+    numeric: h => h.includes('long-acting insulin') && !h.includes('non-numeric'),
+    text: h => h.includes('long-acting insulin') && h.includes('non-numeric'),
+  },
+  {
+    type: 'carbs',
+    numeric: h => h.includes('carbohydrates') && h.includes('grams'),
+    text: h => h.includes('non-numeric food'),
+  },
+  {
+    type: 'strip-glucose',
+    numeric: h => h.startsWith('strip glucose'),
+  },
+  {
+    type: 'ketone',
+    numeric: h => h.startsWith('ketone'),
+  },
+  {
+    type: 'note',
+    numeric: () => false,
+    text: h => h === 'notes',
+  },
+];
+
+// Libre 2/3 bolus calculator splits rapid insulin into these components
+const RAPID_INSULIN_PARTS = ['meal insulin', 'correction insulin', 'user change insulin'];
+
 /**
- * Parse various timestamp formats
+ * Parse non-glucose entries (insulin, carbs, notes, strip and ketone readings)
  */
-function parseTimestamp(str: string): Date | null {
-  if (!str) return null;
+function parseEvents(
+  rows: CSVRow[],
+  timestamps: (Date | null)[],
+  headers: string[],
+  unit: GlucoseUnit
+): GlucoseEvent[] {
+  const events: GlucoseEvent[] = [];
+  
+  const lowerHeaders = headers.map(h => h.toLowerCase());
+  const findHeader = (match: (h: string) => boolean): string | null => {
+    const idx = lowerHeaders.findIndex(match);
+    return idx >= 0 ? headers[idx] : null;
+  };
+  
+  const columns = EVENT_COLUMNS.map(spec => ({
+    type: spec.type,
+    numericCol: findHeader(spec.numeric),
+    textCol: spec.text ? findHeader(spec.text) : null,
+  }));
   
-  // Don't use native Date parsing as it's inconsistent across browsers
-  // LibreView typically uses: DD-MM-YYYY HH:MM or DD/MM/YYYY HH:MM (European)
+  const rapidPartCols = RAPID_INSULIN_PARTS
+    .map(part => findHeader(h => h.startsWith(part)))
+    .filter((col): col is string => col !== null);
   
-  // Match various date formats with time
-  const parts = str.match(/(\d{1,4})[-\/.](\d{1,2})[-\/.](\d{1,4})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?/);
-  if (parts) {
-    const [, p1, p2, p3, hour, minute] = parts;
-    let year: number, month: number, day: number;
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    const timestamp = timestamps[i];
+    if (!timestamp) continue;
     
-    if (p1.length === 4) {
-      // YYYY-MM-DD format (ISO-like)
-      year = parseInt(p1);
-      month = parseInt(p2) - 1;
-      day = parseInt(p3);
-    } else if (p3.length === 4) {
-      // DD-MM-YYYY or MM-DD-YYYY format
-      year = parseInt(p3);
+    for (const { type, numericCol, textCol } of columns) {
+      let value = numericCol ? parseFloat(row[numericCol]) : NaN;
+      const text = textCol ? row[textCol] : '';
+      
+      // Fall back to summing the bolus calculator components
+      if (type === 'rapid-insulin' && isNaN(value)) {
+        const parts = rapidPartCols.map(col => parseFloat(row[col])).filter(v => !isNaN(v));
+        if (parts.length > 0) {
+          value = parts.reduce((a, b) => a + b, 0);
+        }
+      }
       
-      const n1 = parseInt(p1);
-      const n2 = parseInt(p2);
+      if (isNaN(value) && !text) continue;
       
-      if (n1 > 12) {
-        // First number > 12, must be day: DD-MM-YYYY
-        day = n1;
-        month = n2 - 1;
-      } else if (n2 > 12) {
-        // Second number > 12, must be day: MM-DD-YYYY
-        month = n1 - 1;
-        day = n2;
-      } else {
-        // Both <= 12, ambiguous
-        // LibreView uses European format (DD-MM-YYYY) by default
-        day = n1;
-        month = n2 - 1;
+      // Strip glucose follows the file unit; keep it comparable to readings
+      if (type === 'strip-glucose' && unit === 'mmol/L' && !isNaN(value)) {
+        value *= MGDL_PER_MMOL;
       }
-    } else {
-      // YY-MM-DD or other short format
-      year = 2000 + parseInt(p1);
-      month = parseInt(p2) - 1;
-      day = parseInt(p3);
-    }
-    
-    return new Date(year, month, day, parseInt(hour), parseInt(minute));
-  }
-  
-  // Fallback: try native parsing for ISO format
-  const isoDate = new Date(str);
-  if (!isNaN(isoDate.getTime())) {
-    return isoDate;
-  }
-  
-  return null;
-}
-
-/**
- * Group readings by day and calculate stats
- */
-function groupReadingsByDay(readings: GlucoseReading[]): Map<string, DailyGlucoseData> {
-  const days = new Map<string, DailyGlucoseData>();
-  
-  for (const reading of readings) {
-    const dateKey = formatDateKey(reading.timestamp);
-    
-    if (!days.has(dateKey)) {
-      days.set(dateKey, {
-        date: dateKey,
-        readings: [],
-        wavetable: null,
-        stats: { min: Infinity, max: -Infinity, avg: 0, timeInRange: 0 },
-      });
+      
+      const event: GlucoseEvent = {
+        timestamp,
+        type,
+        value: isNaN(value) ? null : value,
+      };
+      if (text) {
+        event.text = text;
+      }
+      events.push(event);
     }
-    
-    days.get(dateKey)!.readings.push(reading);
-  }
-  
-  // Calculate stats for each day
-  for (const [, dayData] of days) {
-    calculateDayStats(dayData);
   }
   
-  return days;
-}
-
-/**
- * Format date as YYYY-MM-DD
- */
-function formatDateKey(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
-}
-
-/**
- * Calculate statistics for a day's readings
- */
-function calculateDayStats(dayData: DailyGlucoseData): void {
-  const values = dayData.readings.map(r => r.value);
-  
-  if (values.length === 0) {
-    dayData.stats = { min: 0, max: 0, avg: 0, timeInRange: 0 };
-    return;
-  }
-  
-  const min = Math.min(...values);
-  const max = Math.max(...values);
-  const avg = values.reduce((a, b) => a + b, 0) / values.length;
-  
-  // Time in range (70-180 mg/dL)
-  const inRange = values.filter(v => v >= 70 && v <= 180).length;
-  const timeInRange = (inRange / values.length) * 100;
+  events.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
   
-  dayData.stats = { min, max, avg, timeInRange };
+  return events;
 }
 
 /**
@@ -327,9 +326,10 @@ export function getAvailableDates(data: ParsedLibreViewData): string[] {
 }
 
 /**
- * Format a date string for display
+ * Format a date string for display ("Day 3" on a relative timeline)
  */
 export function formatDateForDisplay(dateKey: string): string {
+  if (isRelativeTimeline()) return formatRelativeDay(dateKey);
   const date = new Date(dateKey + 'T00:00:00');
   return date.toLocaleDateString('en-US', {
     weekday: 'short',
@@ -0,0 +1,130 @@
+// Mapped CSV Parser
+// Parses any CSV with the columns picked in the column-mapping wizard
+
+import type { GlucoseReading, ParsedLibreViewData, ImportProgressCallback, DateOrderDetection } from '../types';
+import { MGDL_PER_MMOL } from '../types';
+import { parseCSVLine, parseTimestamp, detectDateOrder } from './csv-utils';
+import type { ColumnMapping } from './column-mapping';
+import { groupReadingsByDay } from './day-grouping';
+import { DiagnosticsCollector } from './diagnostics';
+import { type ImportOptions, resolveTimeZone } from './import-options';
+import { mergeReadings } from './reading-merge';
+import { SourceRegistry, UNKNOWN_DEVICE } from './reading-sources';
+import { buildTimeWindows } from './time-windows';
+
+// Report progress every N rows
+const PROGRESS_INTERVAL = 5000;
+
+// Sensor out-of-range markers across export languages
+const OUT_OF_RANGE_VALUES = new Set(['lo', 'hi', 'low', 'high', 'niedrig', 'hoch', 'bas', 'haut', 'lav', 'høy']);
+
+/**
+ * Parse a CSV export using a user-defined column mapping
+ */
+export function parseMappedCSV(
+  csvContent: string,
+  mapping: ColumnMapping,
+  options: ImportOptions,
+  onProgress?: ImportProgressCallback
+): ParsedLibreViewData {
+  const timeZone = resolveTimeZone(options);
+  const lines = csvContent.trim().split(/\r?\n/);
+  const headers = parseCSVLine(lines[mapping.headerRow] ?? '', mapping.delimiter).map(h => h.trim());
+
+  const columnIndex = (name: string): number => {
+    const idx = headers.indexOf(name);
+    if (idx < 0) {
+      throw new Error(`Column "${name}" not found in the header`);
+    }
+    return idx;
+  };
+  const timestampIdx = columnIndex(mapping.timestamp);
+  const glucoseIdx = columnIndex(mapping.glucose);
+  const scanIdx = mapping.scan ? columnIndex(mapping.scan) : -1;
+  const minFields = Math.max(timestampIdx, glucoseIdx, scanIdx) + 1;
+
+  const diagnostics = new DiagnosticsCollector('CSV (column mapping)');
+  const rows: { line: number; values: string[] }[] = [];
+  let totalRows = 0;
+
+  for (let i = mapping.headerRow + 1; i < lines.length; i++) {
+    if (onProgress && i % PROGRESS_INTERVAL === 0) {
+      onProgress(0.6 * (i / lines.length));
+    }
+    if (!lines[i].trim()) continue;
+    totalRows++;
+    const values = parseCSVLine(lines[i], mapping.delimiter).map(v => v.trim());
+    if (values.length < minFields) {
+      diagnostics.skip(i + 1, 'column-count', `${values.length} fields, expected at least ${minFields}`);
+      continue;
+    }
+    rows.push({ line: i + 1, values });
+  }
+
+  const dateOrder: DateOrderDetection = mapping.dateOrder === 'auto'
+    ? detectDateOrder(rows.map(row => row.values[timestampIdx]))
+    : { order: mapping.dateOrder, ambiguous: false, conflicts: 0 };
+  onProgress?.(0.7);
+
+  // Mapped files carry no device columns; all readings share one source
+  const sources = new SourceRegistry();
+  const source = sources.add(UNKNOWN_DEVICE, '');
+  const readings: GlucoseReading[] = [];
+
+  for (const { line, values } of rows) {
+    let recordType: number;
+    let valueStr: string;
+    if (values[glucoseIdx]) {
+      recordType = 0;
+      valueStr = values[glucoseIdx];
+    } else if (scanIdx >= 0 && values[scanIdx]) {
+      recordType = 1;
+      valueStr = values[scanIdx];
+    } else {
+      continue;
+    }
+
+    const timestamp = parseTimestamp(values[timestampIdx], timeZone, dateOrder.order);
+    if (!timestamp) {
+      diagnostics.skip(line, 'invalid-timestamp', values[timestampIdx]);
+      continue;
+    }
+
+    if (OUT_OF_RANGE_VALUES.has(valueStr.toLowerCase())) {
+      diagnostics.skip(line, 'out-of-range', valueStr);
+      continue;
+    }
+
+    // Accept a decimal comma ("5,6") as used with ';'-separated exports
+    const value = parseFloat(valueStr.replace(',', '.'));
+    if (isNaN(value)) {
+      diagnostics.skip(line, 'invalid-value', valueStr);
+      continue;
+    }
+
+    readings.push({
+      timestamp,
+      value: mapping.unit === 'mmol/L' ? value * MGDL_PER_MMOL : value,
+      recordType,
+      source,
+    });
+  }
+
+  readings.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const merge = mergeReadings(readings, options.readingMerge);
+  diagnostics.recordMerge(merge.duplicates, merge.droppedScans);
+
+  const days = groupReadingsByDay(merge.readings, [], timeZone, options.dayStartHour);
+  onProgress?.(1);
+
+  return {
+    days,
+    unit: mapping.unit,
+    timezone: timeZone,
+    windows: buildTimeWindows(days, timeZone, options),
+    sources: sources.sources,
+    records: { readings, events: [] },
+    diagnostics: diagnostics.build(totalRows, days, dateOrder),
+  };
+}
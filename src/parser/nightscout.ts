@@ -0,0 +1,142 @@
+// Nightscout Entries Parser
+// Parses entries.json dumps from a Nightscout site (/api/v1/entries.json)
+
+import type { GlucoseReading, GlucoseEvent, ParsedLibreViewData, TrendDirection, ImportProgressCallback } from '../types';
+import { groupReadingsByDay } from './day-grouping';
+import { DiagnosticsCollector } from './diagnostics';
+import { type ImportOptions, resolveTimeZone } from './import-options';
+import { mergeReadings } from './reading-merge';
+import { SourceRegistry } from './reading-sources';
+import { buildTimeWindows } from './time-windows';
+
+// Report progress every N entries
+const PROGRESS_INTERVAL = 5000;
+
+interface NightscoutEntry {
+  type?: string;        // 'sgv' (sensor), 'mbg' (meter), 'cal'
+  sgv?: number;         // sensor glucose, always mg/dL
+  mbg?: number;         // meter (fingerstick) glucose, mg/dL
+  date?: number;        // epoch ms
+  dateString?: string;  // ISO 8601 with offset
+  direction?: string;
+  device?: string;
+}
+
+const TREND_DIRECTIONS: TrendDirection[] = [
+  'DoubleUp',
+  'SingleUp',
+  'FortyFiveUp',
+  'Flat',
+  'FortyFiveDown',
+  'SingleDown',
+  'DoubleDown',
+  'NOT COMPUTABLE',
+  'RATE OUT OF RANGE',
+];
+
+/**
+ * Check whether the start of a JSON file looks like Nightscout entries
+ */
+export function isNightscoutEntries(head: string): boolean {
+  const trimmed = head.trimStart();
+  return trimmed.startsWith('[') && (trimmed.includes('"sgv"') || trimmed.includes('"mbg"'));
+}
+
+/**
+ * Parse a Nightscout entries.json dump
+ */
+export function parseNightscoutJSON(jsonContent: string, options: ImportOptions, onProgress?: ImportProgressCallback): ParsedLibreViewData {
+  const timeZone = resolveTimeZone(options);
+  const parsed: unknown = JSON.parse(jsonContent);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Nightscout entries must be a JSON array');
+  }
+  const entries = parsed as (NightscoutEntry | null)[];
+  onProgress?.(0.3);
+
+  const readings: GlucoseReading[] = [];
+  const events: GlucoseEvent[] = [];
+  const diagnostics = new DiagnosticsCollector('Nightscout entries.json');
+  const sources = new SourceRegistry();
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (onProgress && i % PROGRESS_INTERVAL === 0) {
+      onProgress(0.3 + 0.65 * (i / entries.length));
+    }
+    // Entries are reported 1-based, like CSV line numbers
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      diagnostics.skip(i + 1, 'invalid-value', JSON.stringify(entry));
+      continue;
+    }
+    const timestamp = parseEntryTimestamp(entry);
+    if (!timestamp) {
+      diagnostics.skip(i + 1, 'invalid-timestamp', String(entry.dateString ?? entry.date ?? ''));
+      continue;
+    }
+
+    const type = entry.type ?? 'sgv';
+
+    if (type === 'sgv') {
+      if (typeof entry.sgv !== 'number' || entry.sgv <= 0) {
+        diagnostics.skip(i + 1, 'invalid-value', String(entry.sgv));
+        continue;
+      }
+      const reading: GlucoseReading = {
+        timestamp,
+        value: entry.sgv,
+        recordType: 0,
+        // Uploaders name themselves ("xDrip-DexcomG6", "share2", ...)
+        source: sources.add(entry.device || 'Nightscout', ''),
+      };
+      const trend = parseDirection(entry.direction);
+      if (trend) {
+        reading.trend = trend;
+      }
+      readings.push(reading);
+    } else if (type === 'mbg' && typeof entry.mbg === 'number') {
+      events.push({ timestamp, type: 'strip-glucose', value: entry.mbg });
+    }
+  }
+
+  readings.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  events.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const merge = mergeReadings(readings, options.readingMerge);
+  diagnostics.recordMerge(merge.duplicates, merge.droppedScans);
+
+  const days = groupReadingsByDay(merge.readings, events, timeZone, options.dayStartHour);
+  onProgress?.(1);
+
+  return {
+    days,
+    unit: 'mg/dL',
+    timezone: timeZone,
+    windows: buildTimeWindows(days, timeZone, options),
+    sources: sources.sources,
+    records: { readings, events },
+    // Epoch / ISO-with-offset timestamps have no day/month ambiguity
+    diagnostics: diagnostics.build(entries.length, days, null),
+  };
+}
+
+/**
+ * Prefer the epoch `date` field; fall back to `dateString`
+ */
+function parseEntryTimestamp(entry: NightscoutEntry): Date | null {
+  if (typeof entry.date === 'number') {
+    return new Date(entry.date);
+  }
+  if (entry.dateString) {
+    const date = new Date(entry.dateString);
+    if (!isNaN(date.getTime())) return date;
+  }
+  return null;
+}
+
+/**
+ * Map a Nightscout direction string to a known trend arrow
+ */
+function parseDirection(direction: string | undefined): TrendDirection | undefined {
+  return TREND_DIRECTIONS.find(d => d === direction);
+}
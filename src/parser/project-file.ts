@@ -0,0 +1,230 @@
+// Project Files
+// Saves a parsed dataset as a .glukojson file and loads it back through the importer registry.
+// Exports can be anonymized: serial numbers stripped and dates moved to a relative Day 1..N timeline.
+
+import type {
+  DailyGlucoseData,
+  GapFillPolicy,
+  GlucoseEvent,
+  GlucoseEventType,
+  GlucoseGap,
+  GlucoseMetrics,
+  GlucoseReading,
+  GlucoseUnit,
+  ImportProgressCallback,
+  ParsedLibreViewData,
+  ReadingSource,
+  TrendDirection,
+} from '../types';
+import { groupReadingsByDay } from './day-grouping';
+import { DiagnosticsCollector } from './diagnostics';
+import { type ImportOptions, resolveTimeZone } from './import-options';
+import { mergeReadings } from './reading-merge';
+import { SourceRegistry } from './reading-sources';
+import { RELATIVE_TIMELINE_ZONE, toRelativeInstant } from './relative-timeline';
+import { buildTimeWindows } from './time-windows';
+import { isValidTimeZone } from './timezone';
+
+export const PROJECT_FILE_EXTENSION = '.glukojson';
+export const PROJECT_FILE_FORMAT = 'glukoscillator-project';
+export const PROJECT_FILE_VERSION = 1;
+
+// Wavetable samples are rounded to this many decimals (keeps files small, inaudible difference)
+const WAVETABLE_DECIMALS = 5;
+
+export interface ProjectExportOptions {
+  stripSerials: boolean;      // drop device serial numbers
+  relativeDates: boolean;     // replace calendar dates with Day 1..N
+  includeWavetables: boolean; // store each day's generated wavetable
+}
+
+export const DEFAULT_PROJECT_EXPORT_OPTIONS: ProjectExportOptions = {
+  stripSerials: true,
+  relativeDates: true,
+  includeWavetables: false,
+};
+
+// On-disk shapes (timestamps are epoch ms)
+interface ProjectReading {
+  t: number;
+  v: number;             // mg/dL
+  rt: number;            // record type: 0 = historic, 1 = scan
+  src?: number;          // index into sources
+  trend?: TrendDirection;
+}
+
+interface ProjectEvent {
+  t: number;
+  type: GlucoseEventType;
+  value: number | null;
+  text?: string;
+}
+
+interface ProjectDay {
+  date: string;
+  startTime: number;
+  endTime: number;
+  readings: ProjectReading[];
+  events: ProjectEvent[];
+  gaps: GlucoseGap[];
+  stats: DailyGlucoseData['stats'];
+  metrics: GlucoseMetrics;
+  wavetable?: number[];
+}
+
+interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  unit: GlucoseUnit;
+  timezone: string;
+  relativeTimeline: boolean;
+  gapFill: GapFillPolicy; // policy the stored wavetables were generated with
+  sources: ReadingSource[];
+  days: ProjectDay[];
+}
+
+/**
+ * Check whether the start of a file looks like a project file
+ */
+export function isProjectFile(head: string): boolean {
+  return head.trimStart().startsWith('{') && head.includes(`"${PROJECT_FILE_FORMAT}"`);
+}
+
+/**
+ * Serialize a dataset (days only; time windows are rebuilt from the settings on load)
+ */
+export function exportProjectFile(
+  data: ParsedLibreViewData,
+  options: ProjectExportOptions,
+  gapFill: GapFillPolicy
+): string {
+  const dates = Array.from(data.days.keys()).sort();
+  const firstDate = dates[0] ?? '';
+  // A file that is already relative stays on its timeline
+  const relative = options.relativeDates && !data.relativeTimeline;
+  const move = (instant: number) => relative ? toRelativeInstant(instant, data.timezone, firstDate) : instant;
+
+  const days: ProjectDay[] = dates.map(date => {
+    const day = data.days.get(date)!;
+    const startTime = move(day.startTime);
+    const projectDay: ProjectDay = {
+      date: relative ? new Date(startTime).toISOString().slice(0, 10) : day.date,
+      startTime,
+      endTime: move(day.endTime),
+      readings: day.readings.map(reading => {
+        const entry: ProjectReading = { t: move(reading.timestamp.getTime()), v: reading.value, rt: reading.recordType };
+        if (reading.source !== undefined) entry.src = reading.source;
+        if (reading.trend) entry.trend = reading.trend;
+        return entry;
+      }),
+      events: day.events.map(event => {
+        const entry: ProjectEvent = { t: move(event.timestamp.getTime()), type: event.type, value: event.value };
+        if (event.text !== undefined) entry.text = event.text;
+        return entry;
+      }),
+      gaps: day.gaps.map(gap => ({ start: move(gap.start), end: move(gap.end) })),
+      stats: { ...day.stats },
+      metrics: { ...day.metrics },
+    };
+    if (options.includeWavetables && day.wavetable) {
+      const scale = Math.pow(10, WAVETABLE_DECIMALS);
+      projectDay.wavetable = Array.from(day.wavetable, v => Math.round(v * scale) / scale);
+    }
+    return projectDay;
+  });
+
+  const file: ProjectFile = {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    unit: data.unit,
+    timezone: relative ? RELATIVE_TIMELINE_ZONE : data.timezone,
+    relativeTimeline: relative || data.relativeTimeline === true,
+    gapFill,
+    sources: data.sources.map(source => ({
+      device: source.device,
+      serial: options.stripSerials ? '' : source.serial,
+    })),
+    days,
+  };
+  return JSON.stringify(file);
+}
+
+/**
+ * Load a project file
+ * Days are regrouped with the current import options, so stats, windows and wavetables follow the settings;
+ * stored stats and wavetables are for use outside Glukoscillator.
+ */
+export function parseProjectFile(content: string, options: ImportOptions, onProgress?: ImportProgressCallback): ParsedLibreViewData {
+  const file = JSON.parse(content) as Partial<ProjectFile>;
+  if (file.format !== PROJECT_FILE_FORMAT || !Array.isArray(file.days)) {
+    throw new Error('Not a Glukoscillator project file');
+  }
+  if (typeof file.version !== 'number' || file.version > PROJECT_FILE_VERSION) {
+    throw new Error(`Unsupported project file version: ${file.version}`);
+  }
+  onProgress?.(0.3);
+
+  // Instants are absolute; the zone they were recorded in decides where days split
+  const timeZone = typeof file.timezone === 'string' && isValidTimeZone(file.timezone)
+    ? file.timezone
+    : resolveTimeZone(options);
+
+  const diagnostics = new DiagnosticsCollector('Glukoscillator project');
+  const sources = new SourceRegistry();
+  const sourceMap = (file.sources ?? []).map(source => sources.add(source.device ?? '', source.serial ?? ''));
+
+  const readings: GlucoseReading[] = [];
+  const events: GlucoseEvent[] = [];
+  let entryCount = 0;
+
+  for (const day of file.days) {
+    for (const entry of day.readings ?? []) {
+      entryCount++;
+      if (typeof entry.t !== 'number' || !isFinite(entry.t)) {
+        diagnostics.skip(entryCount, 'invalid-timestamp', String(entry.t));
+        continue;
+      }
+      if (typeof entry.v !== 'number' || !isFinite(entry.v) || entry.v <= 0) {
+        diagnostics.skip(entryCount, 'invalid-value', String(entry.v));
+        continue;
+      }
+      const reading: GlucoseReading = {
+        timestamp: new Date(entry.t),
+        value: entry.v,
+        recordType: entry.rt === 1 ? 1 : 0,
+      };
+      if (entry.src !== undefined && sourceMap[entry.src] !== undefined) reading.source = sourceMap[entry.src];
+      if (entry.trend) reading.trend = entry.trend;
+      readings.push(reading);
+    }
+    for (const entry of day.events ?? []) {
+      if (typeof entry.t !== 'number' || typeof entry.type !== 'string') continue;
+      const event: GlucoseEvent = { timestamp: new Date(entry.t), type: entry.type, value: entry.value ?? null };
+      if (entry.text !== undefined) event.text = entry.text;
+      events.push(event);
+    }
+  }
+  onProgress?.(0.7);
+
+  readings.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  events.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const merge = mergeReadings(readings, options.readingMerge);
+  diagnostics.recordMerge(merge.duplicates, merge.droppedScans);
+
+  const relativeTimeline = file.relativeTimeline === true;
+  const days = groupReadingsByDay(merge.readings, events, timeZone, options.dayStartHour);
+  onProgress?.(1);
+
+  return {
+    days,
+    windows: buildTimeWindows(days, timeZone, options, relativeTimeline),
+    unit: file.unit === 'mmol/L' ? 'mmol/L' : 'mg/dL',
+    timezone: timeZone,
+    relativeTimeline,
+    sources: sources.sources,
+    records: { readings, events },
+    // Timestamps are epoch ms, so there is no date order to detect
+    diagnostics: diagnostics.build(entryCount, days, null),
+  };
+}
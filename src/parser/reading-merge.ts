@@ -0,0 +1,118 @@
+// Reading Merge
+// Combines historic (automatic) and scan (manual) records into one curve and drops near-duplicates.
+// Shared by every importer; sources without scans (Dexcom, Nightscout) only get de-duplicated.
+
+import type { GlucoseReading, ReadingMergeStrategy } from '../types';
+import { GAP_THRESHOLD_MS } from './day-grouping';
+
+// Readings less than this apart are the same measurement (e.g. a scan logged in the same
+// minute as a historic record, or a double Nightscout upload); 1-minute CGM series stay intact
+export const DUPLICATE_WINDOW_MS = 60 * 1000;
+
+export interface ReadingMergeResult {
+  readings: GlucoseReading[];
+  duplicates: number;   // readings collapsed into a neighbour
+  droppedScans: number; // scans excluded by the strategy
+}
+
+/**
+ * Apply a merge strategy to readings sorted by time
+ */
+export function mergeReadings(readings: GlucoseReading[], strategy: ReadingMergeStrategy): ReadingMergeResult {
+  const historic = readings.filter(r => r.recordType === 0);
+  const scans = readings.filter(r => r.recordType !== 0);
+
+  let keptScans: GlucoseReading[];
+  switch (strategy) {
+    case 'historic':
+      keptScans = [];
+      break;
+    case 'scans-interpolated':
+      keptScans = scansInHistoricGaps(historic, scans);
+      break;
+    default:
+      keptScans = scans;
+  }
+
+  const merged = keptScans.length > 0
+    ? mergeSorted(historic, keptScans)
+    : historic;
+  const deduplicated = removeNearDuplicates(merged);
+
+  return {
+    readings: deduplicated,
+    duplicates: merged.length - deduplicated.length,
+    droppedScans: scans.length - keptScans.length,
+  };
+}
+
+/**
+ * Keep only scans where the historic series has a gap, so they bridge
+ * missing data instead of interleaving with (and spiking against) the smoothed historic curve
+ */
+function scansInHistoricGaps(historic: GlucoseReading[], scans: GlucoseReading[]): GlucoseReading[] {
+  if (historic.length === 0) return scans;
+
+  const kept: GlucoseReading[] = [];
+  let h = 0;
+
+  for (const scan of scans) {
+    const time = scan.timestamp.getTime();
+    // Advance to the last historic reading at or before the scan
+    while (h < historic.length - 1 && historic[h + 1].timestamp.getTime() <= time) h++;
+
+    // Before the first or after the last historic record, the scan is in a gap once it
+    // is further away than half the gap threshold
+    const before = historic[h].timestamp.getTime();
+    let inGap: boolean;
+    if (time < before) {
+      inGap = before - time > GAP_THRESHOLD_MS / 2;
+    } else if (h === historic.length - 1) {
+      inGap = time - before > GAP_THRESHOLD_MS / 2;
+    } else {
+      inGap = historic[h + 1].timestamp.getTime() - before > GAP_THRESHOLD_MS;
+    }
+
+    if (inGap) {
+      kept.push(scan);
+    }
+  }
+
+  return kept;
+}
+
+/**
+ * Merge two time-sorted reading lists
+ */
+function mergeSorted(a: GlucoseReading[], b: GlucoseReading[]): GlucoseReading[] {
+  const result: GlucoseReading[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    result.push(a[i].timestamp.getTime() <= b[j].timestamp.getTime() ? a[i++] : b[j++]);
+  }
+  while (i < a.length) result.push(a[i++]);
+  while (j < b.length) result.push(b[j++]);
+  return result;
+}
+
+/**
+ * Collapse readings within DUPLICATE_WINDOW_MS of the previously kept one
+ * Historic records win over scans; otherwise the first reading is kept
+ */
+function removeNearDuplicates(readings: GlucoseReading[]): GlucoseReading[] {
+  const result: GlucoseReading[] = [];
+
+  for (const reading of readings) {
+    const last = result[result.length - 1];
+    if (last && reading.timestamp.getTime() - last.timestamp.getTime() < DUPLICATE_WINDOW_MS) {
+      if (last.recordType !== 0 && reading.recordType === 0) {
+        result[result.length - 1] = reading;
+      }
+      continue;
+    }
+    result.push(reading);
+  }
+
+  return result;
+}
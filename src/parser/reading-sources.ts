@@ -0,0 +1,36 @@
+// Reading Sources
+// Tracks which device/serial each reading came from so files and sensors can be merged
+
+import type { ReadingSource } from '../types';
+
+// Device name used when an export doesn't say
+export const UNKNOWN_DEVICE = 'Unknown Device';
+
+export class SourceRegistry {
+  readonly sources: ReadingSource[] = [];
+  private indices = new Map<string, number>();
+
+  /**
+   * Get the index of a device/serial pair, adding it on first use
+   */
+  add(device: string, serial: string): number {
+    const name = device.trim() || UNKNOWN_DEVICE;
+    const id = serial.trim();
+    const key = `${name}\u0000${id}`;
+
+    let index = this.indices.get(key);
+    if (index === undefined) {
+      index = this.sources.length;
+      this.sources.push({ device: name, serial: id });
+      this.indices.set(key, index);
+    }
+    return index;
+  }
+}
+
+/**
+ * Format a source for display ("FreeStyle Libre 3 · ABC123")
+ */
+export function formatReadingSource(source: ReadingSource): string {
+  return source.serial ? `${source.device} · ${source.serial}` : source.device;
+}
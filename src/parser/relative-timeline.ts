@@ -0,0 +1,48 @@
+// Relative Timeline
+// Anonymized project files replace calendar dates with "Day 1..N". Their readings are moved onto a
+// fixed UTC timeline starting 2000-01-01 with the original wall-clock times kept, so day grouping,
+// windows and wavetables work unchanged; only date labels read differently.
+
+import { getTimeZoneOffset } from './timezone';
+
+// Instant (UTC midnight) that Day 1 starts at
+export const RELATIVE_TIMELINE_START = Date.UTC(2000, 0, 1);
+
+// Timezone of a relative timeline (wall-clock times are stored as UTC)
+export const RELATIVE_TIMELINE_ZONE = 'UTC';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whether the loaded data uses a relative timeline (labels read "Day N")
+let relativeTimeline = false;
+
+/**
+ * Check whether date labels should read "Day N"
+ */
+export function isRelativeTimeline(): boolean {
+  return relativeTimeline;
+}
+
+/**
+ * Switch date labels between calendar dates and "Day N" (follows the loaded data)
+ */
+export function setRelativeTimeline(enabled: boolean): void {
+  relativeTimeline = enabled;
+}
+
+/**
+ * Move an instant onto the relative timeline, keeping its wall-clock time in the source zone
+ * firstDate is the date key ("2025-11-24") that becomes Day 1
+ */
+export function toRelativeInstant(instant: number, timeZone: string, firstDate: string): number {
+  const [year, month, day] = firstDate.split('-').map(n => parseInt(n));
+  return instant + getTimeZoneOffset(instant, timeZone) - Date.UTC(year, month - 1, day) + RELATIVE_TIMELINE_START;
+}
+
+/**
+ * "Day 3" for a date key on the relative timeline
+ */
+export function formatRelativeDay(dateKey: string): string {
+  const [year, month, day] = dateKey.split('-').map(n => parseInt(n));
+  return `Day ${Math.round((Date.UTC(year, month - 1, day) - RELATIVE_TIMELINE_START) / DAY_MS) + 1}`;
+}
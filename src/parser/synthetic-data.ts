@@ -0,0 +1,326 @@
+// Synthetic Glucose Data
+// Generates realistic CGM days for demos, workshops and reproducible sound design.
+// A simple physiological model: fasting baseline with a dawn rise, meal excursions pulled back by
+// rapid insulin, slow drift, occasional nocturnal hypos and sensor noise. A seeded PRNG makes the
+// same profile, seed and day count produce the same curves every time.
+
+import type { GlucoseEvent, GlucoseReading, ParsedLibreViewData } from '../types';
+import { groupReadingsByDay } from './day-grouping';
+import { DiagnosticsCollector } from './diagnostics';
+import { type ImportOptions, resolveTimeZone } from './import-options';
+import { SourceRegistry } from './reading-sources';
+import { buildTimeWindows } from './time-windows';
+import { getWallClockTime, zonedTimeToInstant } from './timezone';
+
+export type SyntheticProfileId = 'non-diabetic' | 'well-controlled' | 'moderate' | 'brittle';
+
+export interface SyntheticProfile {
+  id: SyntheticProfileId;
+  label: string;
+  baseline: number;        // fasting glucose (mg/dL)
+  dawnRise: number;        // extra rise towards 7:00 (mg/dL)
+  mealRise: number;        // peak of an average meal before insulin (mg/dL)
+  mealVariability: number; // spread of meal size, timing and insulin match (0..1)
+  insulinMatch: number;    // share of a meal the bolus covers on average (1 = exact)
+  hypoChance: number;      // probability of a nocturnal hypo per night
+  hypoDepth: number;       // typical drop of a nocturnal hypo (mg/dL)
+  drift: number;           // slow random walk step (mg/dL per reading)
+  noise: number;           // sensor noise SD (mg/dL)
+}
+
+export const SYNTHETIC_PROFILES: SyntheticProfile[] = [
+  {
+    id: 'non-diabetic', label: 'Non-diabetic',
+    baseline: 88, dawnRise: 6, mealRise: 45, mealVariability: 0.15, insulinMatch: 1,
+    hypoChance: 0, hypoDepth: 0, drift: 0.6, noise: 3,
+  },
+  {
+    id: 'well-controlled', label: 'Well-controlled',
+    baseline: 115, dawnRise: 20, mealRise: 115, mealVariability: 0.35, insulinMatch: 0.95,
+    hypoChance: 0.08, hypoDepth: 50, drift: 2, noise: 5,
+  },
+  {
+    id: 'moderate', label: 'Moderately controlled',
+    baseline: 140, dawnRise: 30, mealRise: 130, mealVariability: 0.4, insulinMatch: 0.85,
+    hypoChance: 0.12, hypoDepth: 60, drift: 2, noise: 7,
+  },
+  {
+    id: 'brittle', label: 'Brittle',
+    baseline: 145, dawnRise: 45, mealRise: 170, mealVariability: 0.8, insulinMatch: 1,
+    hypoChance: 0.5, hypoDepth: 105, drift: 3.5, noise: 9,
+  },
+];
+
+export interface SyntheticDataOptions {
+  profile: SyntheticProfileId;
+  days: number;
+  seed: number;
+}
+
+export const DEFAULT_SYNTHETIC_OPTIONS: SyntheticDataOptions = {
+  profile: 'well-controlled',
+  days: 14,
+  seed: 1,
+};
+
+// CGM-like sampling interval and sensor range (values outside read Lo / Hi)
+const READING_INTERVAL_MS = 5 * 60 * 1000;
+const SENSOR_MIN = 40;
+const SENSOR_MAX = 400;
+
+// The model runs on a reference timeline of 24-hour days (no DST), sampled every reading interval
+const MINUTES_PER_DAY = 24 * 60;
+const READING_MINUTES = READING_INTERVAL_MS / 60000;
+const SAMPLES_PER_DAY = MINUTES_PER_DAY / READING_MINUTES;
+
+// Typical meals: wall-clock time (minutes) and size relative to an average meal
+const MEALS = [
+  { minute: 7.5 * 60, size: 0.8 },
+  { minute: 12.5 * 60, size: 1 },
+  { minute: 19 * 60, size: 1.2 },
+];
+const SNACK_CHANCE = 0.4;
+
+// Minutes after eating until carbs and insulin act most strongly
+const CARB_PEAK_MINUTES = 50;
+const INSULIN_PEAK_MINUTES = 100;
+
+// Responses are ignored after this long
+const RESPONSE_MINUTES = 10 * 60;
+
+// Grams of carbs in an average meal, and carbs covered per unit of rapid insulin
+const AVERAGE_MEAL_CARBS = 60;
+const CARBS_PER_UNIT = 10;
+
+interface Meal {
+  day: number;      // index of the generated day
+  minute: number;   // wall-clock minute of that day
+  rise: number;     // carb peak (mg/dL)
+  insulin: number;  // share of the rise the bolus covers
+  carbs: number;    // grams
+}
+
+interface Hypo {
+  day: number;      // index of the generated day
+  minute: number;   // wall-clock minute of the lowest point
+  depth: number;    // mg/dL
+  width: number;    // minutes (standard deviation of the dip)
+}
+
+/**
+ * Look up a profile by id (the default profile for unknown ids)
+ */
+export function getSyntheticProfile(id: SyntheticProfileId): SyntheticProfile {
+  return SYNTHETIC_PROFILES.find(profile => profile.id === id)
+    ?? SYNTHETIC_PROFILES.find(profile => profile.id === DEFAULT_SYNTHETIC_OPTIONS.profile)!;
+}
+
+/**
+ * Name shown for generated data ("synthetic-brittle-seed-7")
+ */
+export function getSyntheticDataName(options: SyntheticDataOptions): string {
+  return `synthetic-${options.profile}-seed-${options.seed}`;
+}
+
+/**
+ * Generate CGM days ending yesterday in the import timezone
+ * The curves are modelled on a reference timeline first, with one random stream per day, so the
+ * same profile, seed and day count give the same curves whatever the run date or DST changes.
+ * Only the calendar dates they are placed on move with the run date.
+ */
+export function generateSyntheticData(syntheticOptions: SyntheticDataOptions, options: ImportOptions): ParsedLibreViewData {
+  const profile = getSyntheticProfile(syntheticOptions.profile);
+  const dayCount = Math.max(1, Math.round(syntheticOptions.days));
+  const timeZone = resolveTimeZone(options);
+  const streams = Array.from({ length: dayCount }, (_, day) => createRandom(getDaySeed(syntheticOptions.seed, day)));
+
+  // Plan every day's meals and hypos first, so responses can run past midnight
+  const meals: Meal[] = [];
+  const hypos: Hypo[] = [];
+  for (let day = 0; day < dayCount; day++) {
+    const random = streams[day];
+    const planned = random() < SNACK_CHANCE
+      ? [...MEALS, { minute: (15.5 + random()) * 60, size: 0.35 }]
+      : MEALS;
+
+    for (const meal of planned) {
+      const minute = meal.minute + gaussian(random) * 40 * profile.mealVariability;
+      const size = meal.size * Math.exp(gaussian(random) * 0.5 * profile.mealVariability);
+      const insulin = profile.id === 'non-diabetic'
+        ? 1
+        : Math.max(0, profile.insulinMatch + gaussian(random) * 0.3 * profile.mealVariability);
+      meals.push({
+        day,
+        minute: Math.round(Math.min(MINUTES_PER_DAY - 1, Math.max(0, minute))),
+        rise: profile.mealRise * size,
+        insulin,
+        carbs: Math.round(AVERAGE_MEAL_CARBS * size),
+      });
+    }
+
+    if (random() < profile.hypoChance) {
+      hypos.push({
+        day,
+        minute: 60 + random() * 180,
+        depth: profile.hypoDepth * (0.7 + random() * 0.6),
+        width: 25 + random() * 20,
+      });
+    }
+  }
+
+  // Snacks were planned after dinner; responses are summed in time order
+  const referenceMinute = (event: { day: number; minute: number }) => event.day * MINUTES_PER_DAY + event.minute;
+  meals.sort((a, b) => referenceMinute(a) - referenceMinute(b));
+
+  // Sample the model on the reference timeline
+  const curve = new Float32Array(dayCount * SAMPLES_PER_DAY);
+  let drift = 0;
+  let mealIndex = 0;
+
+  for (let i = 0; i < curve.length; i++) {
+    const random = streams[Math.floor(i / SAMPLES_PER_DAY)];
+    const minute = i * READING_MINUTES;
+
+    let value = profile.baseline + dawnEffect(minute % MINUTES_PER_DAY) * profile.dawnRise;
+
+    // Meals before this reading that still act on it
+    while (mealIndex < meals.length && minute - referenceMinute(meals[mealIndex]) > RESPONSE_MINUTES) {
+      mealIndex++;
+    }
+    for (let m = mealIndex; m < meals.length && referenceMinute(meals[m]) <= minute; m++) {
+      value += mealResponse(minute - referenceMinute(meals[m]), meals[m], profile.id === 'non-diabetic');
+    }
+
+    for (const hypo of hypos) {
+      const minutes = minute - referenceMinute(hypo);
+      value -= hypo.depth * Math.exp(-(minutes * minutes) / (2 * hypo.width * hypo.width));
+    }
+
+    // Slow drift pulled back towards zero, then sensor noise
+    drift = drift * 0.98 + gaussian(random) * profile.drift;
+    value += drift + gaussian(random) * profile.noise;
+
+    curve[i] = Math.round(Math.min(SENSOR_MAX, Math.max(SENSOR_MIN, value)));
+  }
+
+  // Place the reference days on the calendar, ending yesterday
+  const today = getWallClockTime(Date.now(), timeZone);
+  const toInstant = (day: number, minuteOfDay: number) => zonedTimeToInstant({
+    year: today.year,
+    month: today.month,
+    day: today.day - dayCount + day,
+    hour: Math.floor(minuteOfDay / 60),
+    minute: minuteOfDay % 60,
+  }, timeZone).getTime();
+
+  // Readings every interval in real time, each taking the model's value at its wall-clock time:
+  // a spring-forward day skips an hour of the curve, a fall-back day repeats one
+  const readings: GlucoseReading[] = [];
+  const sources = new SourceRegistry();
+  const source = sources.add(`Synthetic CGM (${profile.label})`, `seed ${syntheticOptions.seed}`);
+
+  for (let day = 0; day < dayCount; day++) {
+    const end = toInstant(day + 1, 0);
+    for (let time = toInstant(day, 0); time < end; time += READING_INTERVAL_MS) {
+      const wall = getWallClockTime(time, timeZone);
+      const sample = Math.floor((wall.hour * 60 + wall.minute) / READING_MINUTES);
+      readings.push({
+        timestamp: new Date(time),
+        value: curve[day * SAMPLES_PER_DAY + sample],
+        recordType: 0,
+        source,
+      });
+    }
+  }
+
+  const events: GlucoseEvent[] = [];
+  for (const meal of meals) {
+    const timestamp = new Date(toInstant(meal.day, meal.minute));
+    events.push({ timestamp, type: 'carbs', value: meal.carbs });
+    if (profile.id !== 'non-diabetic') {
+      events.push({
+        timestamp,
+        type: 'rapid-insulin',
+        value: Math.round((meal.carbs / CARBS_PER_UNIT) * meal.insulin * 2) / 2,
+      });
+    }
+  }
+
+  const days = groupReadingsByDay(readings, events, timeZone, options.dayStartHour);
+  const diagnostics = new DiagnosticsCollector('Synthetic');
+
+  const data: ParsedLibreViewData = {
+    days,
+    unit: 'mg/dL',
+    timezone: timeZone,
+    windows: buildTimeWindows(days, timeZone, options),
+    sources: sources.sources,
+    records: { readings, events },
+    diagnostics: diagnostics.build(readings.length, days, null),
+  };
+  for (const file of data.diagnostics.files) {
+    file.fileName = getSyntheticDataName(syntheticOptions);
+  }
+  return data;
+}
+
+/**
+ * Seed of one day's random stream, from the dataset seed and the day's index
+ */
+function getDaySeed(seed: number, day: number): number {
+  return (Math.imul(seed >>> 0, 0x9E3779B1) ^ Math.imul(day + 1, 0x85EBCA77)) >>> 0;
+}
+
+/**
+ * Dawn phenomenon: rises from 3:00, peaks at 7:00, gone by 11:00 (0..1)
+ */
+function dawnEffect(minuteOfDay: number): number {
+  const hours = minuteOfDay / 60;
+  if (hours < 3 || hours > 11) return 0;
+  const phase = hours < 7 ? (hours - 3) / 4 : 1 - (hours - 7) / 4;
+  return Math.sin((phase * Math.PI) / 2) ** 2;
+}
+
+/**
+ * Glucose change a meal causes some minutes after eating
+ * Carbs and insulin follow the same curve shape with different peaks; with a matched bolus their
+ * areas cancel, so glucose returns to baseline after a post-meal peak and a shallow dip.
+ * Without diabetes the body's own insulin acts on the carbs' timescale.
+ */
+function mealResponse(minutes: number, meal: Meal, endogenous: boolean): number {
+  const carbs = meal.rise * absorptionCurve(minutes, CARB_PEAK_MINUTES);
+  const insulinPeak = endogenous ? CARB_PEAK_MINUTES * 1.4 : INSULIN_PEAK_MINUTES;
+  const insulin = meal.rise * meal.insulin * (CARB_PEAK_MINUTES / insulinPeak) * absorptionCurve(minutes, insulinPeak);
+  return carbs - insulin;
+}
+
+/**
+ * Absorption-shaped pulse peaking at 1 after peakMinutes
+ */
+function absorptionCurve(minutes: number, peakMinutes: number): number {
+  if (minutes <= 0) return 0;
+  const x = minutes / peakMinutes;
+  return x * Math.exp(1 - x);
+}
+
+/**
+ * Seeded PRNG (mulberry32), uniform in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sample (Box-Muller)
+ */
+function gaussian(random: () => number): number {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
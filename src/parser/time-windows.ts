@@ -0,0 +1,198 @@
+// Time Windows
+// Wavetable sources that aren't whole days: nightly sleep periods, the hours after a meal,
+// and ranges picked by the user. Each is a DailyGlucoseData slice with its own gaps and stats.
+
+import type { DailyGlucoseData, GlucoseEvent, GlucoseReading, ParsedLibreViewData, TimeWindowInfo, TimeWindowKind } from '../types';
+import { buildTimeSlice } from './day-grouping';
+import type { ImportOptions } from './import-options';
+import { formatRelativeDay } from './relative-timeline';
+import { formatZonedDateKey, getWallClockTime, zonedTimeToInstant } from './timezone';
+
+// Carb entries this soon after a meal window's start belong to the same meal
+const MEAL_MERGE_MS = 60 * 60 * 1000;
+
+// Windows with fewer readings than this don't make a waveform
+const MIN_WINDOW_READINGS = 2;
+
+// Dropdown section headings, in display order
+export const TIME_WINDOW_HEADINGS: { kind: TimeWindowKind; heading: string }[] = [
+  { kind: 'sleep', heading: 'Nights' },
+  { kind: 'post-meal', heading: 'After meals' },
+  { kind: 'custom', heading: 'Custom ranges' },
+];
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Build the sleep and post-meal windows configured in the import options
+ * On a relative timeline (anonymized project files) labels name "Day N" instead of the date.
+ */
+export function buildTimeWindows(
+  days: Map<string, DailyGlucoseData>,
+  timeZone: string,
+  options: ImportOptions,
+  relativeTimeline: boolean = false
+): Map<string, DailyGlucoseData> {
+  const windows = new Map<string, DailyGlucoseData>();
+  if (!options.sleepWindow && options.postMealHours <= 0) return windows;
+
+  const { readings, events } = flattenDays(days);
+
+  if (options.sleepWindow) {
+    const { start, end } = options.sleepWindow;
+    // One night per calendar date that has data
+    const dates = new Set(readings.map(r => formatZonedDateKey(r.timestamp.getTime(), timeZone)));
+    for (const date of Array.from(dates).sort()) {
+      const startInstant = instantAt(date, start, timeZone);
+      const endInstant = instantAt(date, end + (end <= start ? 24 * 60 : 0), timeZone);
+      addWindow(windows, `sleep:${date}`, buildTimeSlice(readings, events, startInstant, endInstant, date), {
+        kind: 'sleep',
+        label: `Night of ${formatDay(startInstant, timeZone, relativeTimeline)}`,
+      });
+    }
+  }
+
+  if (options.postMealHours > 0) {
+    let lastMeal = -Infinity;
+    for (const event of events) {
+      const time = event.timestamp.getTime();
+      if (event.type !== 'carbs' || time - lastMeal < MEAL_MERGE_MS) continue;
+      lastMeal = time;
+
+      const end = time + options.postMealHours * 60 * 60 * 1000;
+      const date = formatZonedDateKey(time, timeZone);
+      const grams = event.value !== null ? ` · ${Math.round(event.value)} g` : '';
+      addWindow(windows, `post-meal:${time}`, buildTimeSlice(readings, events, time, end, date), {
+        kind: 'post-meal',
+        label: `Meal ${formatDay(time, timeZone, relativeTimeline)} ${formatClock(time, timeZone)}${grams}`,
+      });
+    }
+  }
+
+  return windows;
+}
+
+/**
+ * Cut a user-picked range out of an import (null when it holds too few readings)
+ */
+export function buildCustomWindow(data: ParsedLibreViewData, start: number, end: number): DailyGlucoseData | null {
+  if (end <= start) return null;
+
+  const { readings, events } = flattenDays(data.days);
+  const slice = buildTimeSlice(readings, events, start, end, formatZonedDateKey(start, data.timezone));
+  if (slice.readings.length < MIN_WINDOW_READINGS) return null;
+
+  const relative = data.relativeTimeline === true;
+  const from = `${formatDay(start, data.timezone, relative)} ${formatClock(start, data.timezone)}`;
+  const to = formatZonedDateKey(start, data.timezone) === formatZonedDateKey(end, data.timezone)
+    ? formatClock(end, data.timezone)
+    : `${formatDay(end, data.timezone, relative)} ${formatClock(end, data.timezone)}`;
+  slice.window = { kind: 'custom', label: `${from} – ${to}` };
+  return slice;
+}
+
+/**
+ * Key a custom window is stored under in ParsedLibreViewData.windows
+ */
+export function customWindowKey(start: number, end: number): string {
+  return `custom:${start}-${end}`;
+}
+
+/**
+ * Look up a wavetable source by key, whether a day or a window
+ */
+export function getWavetableSource(data: ParsedLibreViewData, key: string): DailyGlucoseData | undefined {
+  return data.days.get(key) ?? data.windows.get(key);
+}
+
+/**
+ * Read a datetime-local input value ("2025-11-24T22:00") as a wall-clock time in the import's timezone
+ */
+export function parseDateTimeInput(value: string, timeZone: string): number | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute] = match.map(n => parseInt(n));
+  return zonedTimeToInstant({ year, month: month - 1, day, hour, minute }, timeZone).getTime();
+}
+
+/**
+ * Format an instant for a datetime-local input, in the import's timezone
+ */
+export function formatDateTimeInput(instant: number, timeZone: string): string {
+  const wall = getWallClockTime(instant, timeZone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${wall.year}-${pad(wall.month + 1)}-${pad(wall.day)}T${pad(wall.hour)}:${pad(wall.minute)}`;
+}
+
+/**
+ * Keys of one kind of window, newest first
+ */
+export function getWindowKeys(data: ParsedLibreViewData, kind: TimeWindowKind): string[] {
+  return Array.from(data.windows.entries())
+    .filter(([, source]) => source.window?.kind === kind)
+    .sort(([, a], [, b]) => b.startTime - a.startTime)
+    .map(([key]) => key);
+}
+
+/**
+ * Keep a window if it has enough readings
+ */
+function addWindow(
+  windows: Map<string, DailyGlucoseData>,
+  key: string,
+  slice: DailyGlucoseData,
+  info: TimeWindowInfo
+): void {
+  if (slice.readings.length < MIN_WINDOW_READINGS) return;
+  slice.window = info;
+  windows.set(key, slice);
+}
+
+/**
+ * All readings and events of an import, in time order
+ */
+function flattenDays(days: Map<string, DailyGlucoseData>): { readings: GlucoseReading[]; events: GlucoseEvent[] } {
+  const readings: GlucoseReading[] = [];
+  const events: GlucoseEvent[] = [];
+  // Day keys sort chronologically, and each day's readings are already sorted
+  for (const date of Array.from(days.keys()).sort()) {
+    const day = days.get(date)!;
+    readings.push(...day.readings);
+    events.push(...day.events);
+  }
+  return { readings, events };
+}
+
+/**
+ * Instant of a local time given as minutes after midnight of a date (may exceed a day)
+ */
+function instantAt(dateKey: string, minutes: number, timeZone: string): number {
+  const [year, month, day] = dateKey.split('-').map(n => parseInt(n));
+  // Date.UTC normalizes day overflow
+  const date = new Date(Date.UTC(year, month - 1, day + Math.floor(minutes / (24 * 60))));
+  const minuteOfDay = minutes % (24 * 60);
+  return zonedTimeToInstant({
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth(),
+    day: date.getUTCDate(),
+    hour: Math.floor(minuteOfDay / 60),
+    minute: minuteOfDay % 60,
+  }, timeZone).getTime();
+}
+
+/**
+ * "Nov 24" in the import's timezone ("Day 3" on a relative timeline)
+ */
+function formatDay(instant: number, timeZone: string, relativeTimeline: boolean): string {
+  if (relativeTimeline) return formatRelativeDay(formatZonedDateKey(instant, timeZone));
+  const wall = getWallClockTime(instant, timeZone);
+  return `${MONTH_NAMES[wall.month]} ${wall.day}`;
+}
+
+/**
+ * "07:30" in the import's timezone
+ */
+export function formatClock(instant: number, timeZone: string): string {
+  const wall = getWallClockTime(instant, timeZone);
+  return `${String(wall.hour).padStart(2, '0')}:${String(wall.minute).padStart(2, '0')}`;
+}
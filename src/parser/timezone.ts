@@ -0,0 +1,177 @@
+// Timezone Helpers
+// Converts export wall-clock times to instants and keys days in the source timezone.
+// Uses Intl only (no tz database bundled), so any IANA zone the browser knows works.
+
+export interface WallClockTime {
+  year: number;
+  month: number;  // 0-11, like Date
+  day: number;
+  hour: number;
+  minute: number;
+  second?: number;
+}
+
+// Cached formatters (constructing Intl.DateTimeFormat is expensive)
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+// Memoized conversions - a 200k-row import would otherwise format every timestamp several times.
+// Offsets only change on hour boundaries, and every UTC offset is a multiple of 15 minutes.
+const offsetByLocalHour = new Map<string, number>();
+const dateKeyByQuarterHour = new Map<string, string>();
+const QUARTER_HOUR = 15 * 60 * 1000;
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Get the browser's own IANA timezone
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * List IANA timezones the browser supports (falls back to the local zone only)
+ */
+export function getSupportedTimeZones(): string[] {
+  try {
+    return Intl.supportedValuesOf('timeZone');
+  } catch {
+    return [getLocalTimeZone()];
+  }
+}
+
+/**
+ * Check whether a string is a timezone Intl accepts
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get wall-clock fields of an instant in a timezone
+ */
+export function getWallClockTime(instant: number, timeZone: string): WallClockTime {
+  const parts = getFormatter(timeZone).formatToParts(new Date(instant));
+  const get = (type: Intl.DateTimeFormatPartTypes): number =>
+    parseInt(parts.find(p => p.type === type)?.value ?? '0');
+
+  return {
+    year: get('year'),
+    month: get('month') - 1,
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+/**
+ * UTC offset (ms) of a timezone at a given instant
+ */
+export function getTimeZoneOffset(instant: number, timeZone: string): number {
+  const wall = getWallClockTime(instant, timeZone);
+  const asUTC = Date.UTC(wall.year, wall.month, wall.day, wall.hour, wall.minute, wall.second ?? 0);
+  // Drop sub-second precision so the difference is a whole offset
+  return asUTC - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time in a timezone to an instant
+ * - Repeated times (DST fall-back) resolve to the first occurrence
+ * - Skipped times (DST spring-forward) are shifted forward by the gap
+ */
+export function zonedTimeToInstant(time: WallClockTime, timeZone: string): Date {
+  const asUTC = Date.UTC(time.year, time.month, time.day, time.hour, time.minute, time.second ?? 0);
+  const cacheKey = `${timeZone}|${time.year}-${time.month}-${time.day}T${time.hour}`;
+  const cachedOffset = offsetByLocalHour.get(cacheKey);
+  if (cachedOffset !== undefined) {
+    return new Date(asUTC - cachedOffset);
+  }
+
+  const instant = resolveWallClock(asUTC, timeZone);
+  offsetByLocalHour.set(cacheKey, asUTC - instant);
+  return new Date(instant);
+}
+
+/**
+ * Find the instant for a wall-clock time expressed as if it were UTC
+ */
+function resolveWallClock(asUTC: number, timeZone: string): number {
+  // Try the offsets in effect a day either side; one of them is right
+  const offsetBefore = getTimeZoneOffset(asUTC - 86400000, timeZone);
+  const offsetAfter = getTimeZoneOffset(asUTC + 86400000, timeZone);
+
+  const candidates = [asUTC - offsetBefore, asUTC - offsetAfter]
+    .filter(instant => asUTC - getTimeZoneOffset(instant, timeZone) === instant)
+    .sort((a, b) => a - b);
+
+  if (candidates.length > 0) {
+    return candidates[0];
+  }
+
+  // Nonexistent local time: interpret with the pre-transition offset
+  return asUTC - offsetBefore;
+}
+
+/**
+ * Format an instant as a YYYY-MM-DD day key in a timezone
+ * With a day start hour, times before that hour belong to the previous day (a 04:00 day runs 04:00-04:00)
+ */
+export function formatZonedDateKey(instant: number, timeZone: string, dayStartHour: number = 0): string {
+  const cacheKey = `${timeZone}|${dayStartHour}|${Math.floor(instant / QUARTER_HOUR)}`;
+  const cached = dateKeyByQuarterHour.get(cacheKey);
+  if (cached) return cached;
+
+  const wall = getWallClockTime(instant, timeZone);
+  // Date.UTC normalizes day 0 to the last day of the previous month
+  const date = new Date(Date.UTC(wall.year, wall.month, wall.hour < dayStartHour ? wall.day - 1 : wall.day));
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(date.getUTCDate()).padStart(2, '0');
+  const dateKey = `${date.getUTCFullYear()}-${month}-${day}`;
+  dateKeyByQuarterHour.set(cacheKey, dateKey);
+  return dateKey;
+}
+
+/**
+ * Get the instants at the start and end of a day (local midnight, or the day start hour)
+ * A DST day spans 23 or 25 hours
+ */
+export function getZonedDayBounds(
+  dateKey: string,
+  timeZone: string,
+  dayStartHour: number = 0
+): { start: number; end: number } {
+  const [year, month, day] = dateKey.split('-').map(n => parseInt(n));
+  const start = zonedTimeToInstant({ year, month: month - 1, day, hour: dayStartHour, minute: 0 }, timeZone).getTime();
+  // Date.UTC normalizes day overflow (e.g. Jan 32 → Feb 1)
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  const end = zonedTimeToInstant({
+    year: next.getUTCFullYear(),
+    month: next.getUTCMonth(),
+    day: next.getUTCDate(),
+    hour: dayStartHour,
+    minute: 0,
+  }, timeZone).getTime();
+  return { start, end };
+}
@@ -0,0 +1,264 @@
+// Dataset Store
+// Keeps parsed datasets (days, windows and their wavetables) in IndexedDB so they survive reloads.
+// Summaries and payloads live in separate object stores, so listing the library doesn't read wavetables.
+// The original files are not kept: they can run to hundreds of MB and carry device serials.
+
+import type { ParsedLibreViewData } from '../types';
+import type { ImportOptions } from '../parser/import-options';
+import type { ImportSource } from '../workers/import-messages';
+
+const DB_NAME = 'glukoscillator';
+const DB_VERSION = 1;
+const SUMMARY_STORE = 'dataset-summaries';
+const PAYLOAD_STORE = 'dataset-payloads';
+
+// Storage key for the dataset restored on startup
+export const ACTIVE_DATASET_STORAGE_KEY = 'glukoscillator-active-dataset';
+
+/**
+ * What the library lists for a stored dataset
+ */
+export interface StoredDatasetSummary {
+  id: number;
+  name: string;               // file names the dataset was imported from
+  signature: string;          // file names and sizes; re-importing the same files replaces the entry
+  devices: string[];
+  firstDate: string;          // date keys ("2025-11-24")
+  lastDate: string;
+  dayCount: number;
+  readingCount: number;
+  relativeTimeline: boolean;
+  savedAt: number;            // epoch ms
+}
+
+/**
+ * A stored dataset with everything needed to restore and regroup it
+ * data keeps the records read before the merge, so a change of import options regroups them
+ * (see regroupDataset) instead of re-reading the files.
+ */
+export interface StoredDataset {
+  summary: StoredDatasetSummary;
+  data: ParsedLibreViewData;
+  options: ImportOptions;     // options the data was parsed with
+  customWindows: { start: number; end: number }[];
+}
+
+type StoredPayload = Omit<StoredDataset, 'summary'>;
+
+/**
+ * Identify a set of source files (same names and sizes means the same import)
+ */
+export function getSourcesSignature(sources: ImportSource[]): string {
+  return sources.map(source => `${source.fileName}:${source.file.size}`).sort().join('|');
+}
+
+/**
+ * Build the library entry for a dataset (id is assigned on save)
+ */
+export function summarizeDataset(data: ParsedLibreViewData, sources: ImportSource[]): Omit<StoredDatasetSummary, 'id'> {
+  const dates = Array.from(data.days.keys()).sort();
+  const devices = Array.from(new Set(data.sources.map(source => source.device).filter(device => device !== '')));
+  return {
+    name: sources.map(source => source.fileName).join(', '),
+    signature: getSourcesSignature(sources),
+    devices,
+    firstDate: dates[0] ?? '',
+    lastDate: dates[dates.length - 1] ?? '',
+    dayCount: data.days.size,
+    readingCount: data.diagnostics.readingCount,
+    relativeTimeline: data.relativeTimeline === true,
+    savedAt: Date.now(),
+  };
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve when a transaction has committed
+ */
+function promisifyTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+export class DatasetStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Check if IndexedDB is available (it isn't in some private browsing modes)
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * List stored datasets, most recently saved first (empty when storage is unavailable)
+   */
+  async list(): Promise<StoredDatasetSummary[]> {
+    try {
+      const db = await this.open();
+      const store = db.transaction(SUMMARY_STORE, 'readonly').objectStore(SUMMARY_STORE);
+      const summaries = await promisifyRequest(store.getAll() as IDBRequest<StoredDatasetSummary[]>);
+      return summaries.sort((a, b) => b.savedAt - a.savedAt);
+    } catch (e) {
+      console.warn('Failed to list stored datasets:', e);
+      return [];
+    }
+  }
+
+  /**
+   * Store a dataset; an existing id is overwritten
+   * Returns the dataset's id, or null when it couldn't be stored (e.g. quota exceeded)
+   */
+  async save(summary: Omit<StoredDatasetSummary, 'id'> & { id?: number }, payload: StoredPayload): Promise<number | null> {
+    try {
+      const db = await this.open();
+      const transaction = db.transaction([SUMMARY_STORE, PAYLOAD_STORE], 'readwrite');
+      const done = promisifyTransaction(transaction);
+
+      // The payload is keyed by the summary's (possibly new) id, written in the same transaction
+      const request = transaction.objectStore(SUMMARY_STORE).put(summary);
+      request.onsuccess = () => {
+        transaction.objectStore(PAYLOAD_STORE).put(payload, request.result);
+      };
+
+      await done;
+      return request.result as number;
+    } catch (e) {
+      console.warn('Failed to store dataset:', e);
+      return null;
+    }
+  }
+
+  /**
+   * Load a stored dataset (null when missing or unreadable)
+   */
+  async load(id: number): Promise<StoredDataset | null> {
+    try {
+      const db = await this.open();
+      const transaction = db.transaction([SUMMARY_STORE, PAYLOAD_STORE], 'readonly');
+      const [summary, payload] = await Promise.all([
+        promisifyRequest(transaction.objectStore(SUMMARY_STORE).get(id) as IDBRequest<StoredDatasetSummary | undefined>),
+        promisifyRequest(transaction.objectStore(PAYLOAD_STORE).get(id) as IDBRequest<StoredPayload | undefined>),
+      ]);
+      if (!summary || !payload) return null;
+      return { summary, ...payload };
+    } catch (e) {
+      console.warn('Failed to load stored dataset:', e);
+      return null;
+    }
+  }
+
+  /**
+   * Remove a stored dataset
+   */
+  async delete(id: number): Promise<boolean> {
+    try {
+      const db = await this.open();
+      const transaction = db.transaction([SUMMARY_STORE, PAYLOAD_STORE], 'readwrite');
+      transaction.objectStore(SUMMARY_STORE).delete(id);
+      transaction.objectStore(PAYLOAD_STORE).delete(id);
+      await promisifyTransaction(transaction);
+      return true;
+    } catch (e) {
+      console.warn('Failed to delete stored dataset:', e);
+      return false;
+    }
+  }
+
+  /**
+   * Open (and on first use create) the database
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      if (!DatasetStore.isSupported()) {
+        return Promise.reject(new Error('IndexedDB is not available'));
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+          db.createObjectStore(SUMMARY_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(PAYLOAD_STORE)) {
+          db.createObjectStore(PAYLOAD_STORE);
+        }
+      };
+      this.db = new Promise((resolve, reject) => {
+        let blocked = false;
+        // Another tab holds an older version open; fail instead of waiting on it forever
+        request.onblocked = () => {
+          blocked = true;
+          reject(new Error('Dataset library is open in another tab'));
+        };
+        request.onsuccess = () => {
+          const db = request.result;
+          if (blocked) {
+            db.close();
+            return;
+          }
+          // Let another tab upgrade the database; the next call here reopens it
+          db.onversionchange = () => {
+            db.close();
+            this.db = null;
+          };
+          resolve(db);
+        };
+        request.onerror = () => reject(request.error);
+      });
+      // Let a later call retry after a failed open
+      this.db.catch(() => { this.db = null; });
+    }
+    return this.db;
+  }
+}
+
+/**
+ * Load the id of the dataset to restore on startup (null when none)
+ */
+export function loadActiveDatasetId(): number | null {
+  try {
+    const saved = localStorage.getItem(ACTIVE_DATASET_STORAGE_KEY);
+    const id = saved ? parseInt(saved) : NaN;
+    return isFinite(id) ? id : null;
+  } catch (e) {
+    console.warn('Failed to load active dataset:', e);
+    return null;
+  }
+}
+
+/**
+ * Persist the id of the dataset to restore on startup (null clears it)
+ */
+export function saveActiveDatasetId(id: number | null): void {
+  try {
+    if (id === null) {
+      localStorage.removeItem(ACTIVE_DATASET_STORAGE_KEY);
+    } else {
+      localStorage.setItem(ACTIVE_DATASET_STORAGE_KEY, String(id));
+    }
+  } catch (e) {
+    console.warn('Failed to save active dataset:', e);
+  }
+}
+
+// Singleton instance
+let storeInstance: DatasetStore | null = null;
+
+export function getDatasetStore(): DatasetStore {
+  if (!storeInstance) {
+    storeInstance = new DatasetStore();
+  }
+  return storeInstance;
+}
@@ -34,6 +34,7 @@ import {
   addRandomSpread,
   type GlucoseStatsWithVolatility,
 } from './effects-config';
+import { MIN_DATA_SUFFICIENCY } from '../parser/glucose-metrics';
 
 // Re-export types and config for convenience
 export * from './effects-types';
@@ -533,9 +534,12 @@ export class EffectsChain {
     const rangeNorm = normalizeGlucoseStat(stats.range, 'range');
     const cvNorm = normalizeGlucoseStat(stats.coefficientOfVariation, 'coefficientOfVariation');
     const rocNorm = normalizeGlucoseStat(stats.rateOfChange, 'rateOfChange');
+    const mageNorm = normalizeGlucoseStat(stats.metrics.mage, 'mage');
+    const lbgiNorm = normalizeGlucoseStat(stats.metrics.lbgi, 'lbgi');
+    const hbgiNorm = normalizeGlucoseStat(stats.metrics.hbgi, 'hbgi');
     
     // Combine metrics for composite intensity values
-    const chaosMetric = amplifyValue((volatilityNorm + cvNorm + rocNorm) / 3, 1.5);
+    const chaosMetric = amplifyValue((volatilityNorm + cvNorm + rocNorm + mageNorm) / 4, 1.5);
     const instabilityMetric = amplifyValue((rangeNorm + cvNorm) / 2, 1.5);
     const qualityMetric = amplifyValue((tirNorm + (1 - volatilityNorm)) / 2, 1.5);
     
@@ -575,6 +579,11 @@ export class EffectsChain {
       }
     }
     
+    // Patchy sensor data (below the consensus sufficiency) sounds lo-fi
+    if (stats.metrics.dataSufficiency < MIN_DATA_SUFFICIENCY) {
+      selectedEffects.add('bitcrusher');
+    }
+    
     // Time-in-range based effects
     if (qualityMetric >= 0.65) {
       // Good quality: spacious, pleasant effects
@@ -603,10 +612,10 @@ export class EffectsChain {
       enabled: selectedEffects.has('compressor'),
     });
 
-    // EQ3: dramatic shape based on glucose metrics
-    const lowBoost = addRandomSpread((1 - avgNorm), 0.25);
+    // EQ3: dramatic shape based on glucose metrics - hypo risk darkens, hyper risk brightens
+    const lowBoost = addRandomSpread(Math.max(1 - avgNorm, lbgiNorm), 0.25);
     const midBoost = addRandomSpread(0.5, 0.3); // Random mid variation
-    const highBoost = addRandomSpread(avgNorm, 0.25);
+    const highBoost = addRandomSpread(Math.max(avgNorm, hbgiNorm), 0.25);
     this.setEQ3({
       low: scaleInRange(lowBoost, RANDOM_RANGES.eq3.low.min, RANDOM_RANGES.eq3.low.max),
       mid: scaleInRange(midBoost, RANDOM_RANGES.eq3.mid.min, RANDOM_RANGES.eq3.mid.max),
@@ -2,7 +2,9 @@
 // Default order, storage key, and randomization ranges
 
 import type { EffectId } from './effects-types';
-import type { GlucoseReading } from '../types';
+import type { GlucoseMetrics, GlucoseReading } from '../types';
+import { DEFAULT_GLUCOSE_TARGETS, getGlucoseTargets } from '../parser/glucose-targets';
+import { EMPTY_GLUCOSE_METRICS } from '../parser/glucose-metrics';
 
 // Glucose stats interface for data-driven randomization
 export interface GlucoseStats {
@@ -19,6 +21,7 @@ export interface GlucoseStatsWithVolatility extends GlucoseStats {
   range: number;           // max - min glucose spread
   coefficientOfVariation: number; // volatility / avg (normalized instability)
   rateOfChange: number;    // Average reading-to-reading change
+  metrics: GlucoseMetrics; // Consensus CGM metrics (GMI, TBR/TAR, MAGE, LBGI/HBGI, ...)
 }
 
 // Default effect order (musically logical signal chain)
@@ -175,7 +178,7 @@ export const GLUCOSE_THRESHOLDS = {
     high: 180,  // mg/dL average considered high
     low: 80,    // mg/dL average considered low
     target: 110, // Target average for normalization
-  },
+  },            // (for the default 70-180 target range; see getAverageThresholds)
   timeInRange: {
     good: 80,   // 80%+ is good
     poor: 40,   // Below 40% is poor
@@ -192,6 +195,18 @@ export const GLUCOSE_THRESHOLDS = {
     high: 15,   // Average mg/dL change per reading considered high
     low: 3,     // Average mg/dL change per reading considered low
   },
+  mage: {
+    high: 120,  // mg/dL excursions typical of very unstable days
+    low: 30,    // mg/dL excursions typical without diabetes
+  },
+  lbgi: {
+    high: 5,    // High hypoglycemia risk
+    low: 1.1,   // Minimal hypoglycemia risk
+  },
+  hbgi: {
+    high: 15,   // High hyperglycemia risk
+    low: 4.5,   // Low hyperglycemia risk
+  },
 };
 
 /**
@@ -230,17 +245,22 @@ export function computeRateOfChange(readings: GlucoseReading[]): number {
 
 /**
  * Combine multiple days' stats into averaged stats
+ * Consensus metrics don't average per day; pass the metrics of the pooled period (see calculatePeriodMetrics).
  */
-export function combineGlucoseStats(statsArray: GlucoseStatsWithVolatility[]): GlucoseStatsWithVolatility {
+export function combineGlucoseStats(
+  statsArray: GlucoseStatsWithVolatility[],
+  metrics: GlucoseMetrics
+): GlucoseStatsWithVolatility {
   if (statsArray.length === 0) {
     return { 
       min: 70, max: 180, avg: 120, timeInRange: 70, 
-      volatility: 25, range: 110, coefficientOfVariation: 0.2, rateOfChange: 5 
+      volatility: 25, range: 110, coefficientOfVariation: 0.2, rateOfChange: 5,
+      metrics: { ...EMPTY_GLUCOSE_METRICS, dataSufficiency: 100 },
     };
   }
   
   if (statsArray.length === 1) {
-    return statsArray[0];
+    return { ...statsArray[0], metrics };
   }
   
   const combined = statsArray.reduce((acc, stats) => ({
@@ -254,7 +274,7 @@ export function combineGlucoseStats(statsArray: GlucoseStatsWithVolatility[]): G
     rateOfChange: acc.rateOfChange + stats.rateOfChange,
   }), { 
     min: Infinity, max: -Infinity, avg: 0, timeInRange: 0, 
-    volatility: 0, range: 0, coefficientOfVariation: 0, rateOfChange: 0 
+    volatility: 0, range: 0, coefficientOfVariation: 0, rateOfChange: 0,
   });
   
   const count = statsArray.length;
@@ -267,6 +287,7 @@ export function combineGlucoseStats(statsArray: GlucoseStatsWithVolatility[]): G
     range: combined.range / count,
     coefficientOfVariation: combined.coefficientOfVariation / count,
     rateOfChange: combined.rateOfChange / count,
+    metrics,
   };
 }
 
@@ -277,12 +298,26 @@ export function scaleInRange(factor: number, min: number, max: number): number {
   return min + factor * (max - min);
 }
 
+/**
+ * Average-glucose thresholds for the configured target range
+ * They keep their relative position in the range, so 80/110/180 in 70-180 become 70/91/140 in 63-140
+ */
+export function getAverageThresholds(): typeof GLUCOSE_THRESHOLDS.average {
+  const targets = getGlucoseTargets();
+  const scale = (value: number) => targets.targetLow +
+    (value - DEFAULT_GLUCOSE_TARGETS.targetLow) / (DEFAULT_GLUCOSE_TARGETS.targetHigh - DEFAULT_GLUCOSE_TARGETS.targetLow) *
+    (targets.targetHigh - targets.targetLow);
+  const { high, low, target } = GLUCOSE_THRESHOLDS.average;
+  return { high: scale(high), low: scale(low), target: scale(target) };
+}
+
 /**
  * Normalize a glucose stat to a 0-1 range for use in effect parameter scaling
  */
 export function normalizeGlucoseStat(
   value: number,
-  type: 'volatility' | 'average' | 'timeInRange' | 'range' | 'coefficientOfVariation' | 'rateOfChange'
+  type: 'volatility' | 'average' | 'timeInRange' | 'range' | 'coefficientOfVariation' | 'rateOfChange' |
+    'mage' | 'lbgi' | 'hbgi'
 ): number {
   const thresholds = GLUCOSE_THRESHOLDS;
   
@@ -292,16 +327,18 @@ export function normalizeGlucoseStat(
       return Math.min(1, Math.max(0, (value - thresholds.volatility.low) / 
         (thresholds.volatility.high - thresholds.volatility.low)));
     
-    case 'average':
-      // Normalize average: 0 = low, 0.5 = target, 1 = high
-      if (value <= thresholds.average.low) return 0;
-      if (value >= thresholds.average.high) return 1;
-      if (value <= thresholds.average.target) {
-        return 0.5 * (value - thresholds.average.low) / 
-          (thresholds.average.target - thresholds.average.low);
+    case 'average': {
+      // Normalize average: 0 = low, 0.5 = target, 1 = high (relative to the user's target range)
+      const average = getAverageThresholds();
+      if (value <= average.low) return 0;
+      if (value >= average.high) return 1;
+      if (value <= average.target) {
+        return 0.5 * (value - average.low) / 
+          (average.target - average.low);
       }
-      return 0.5 + 0.5 * (value - thresholds.average.target) / 
-        (thresholds.average.high - thresholds.average.target);
+      return 0.5 + 0.5 * (value - average.target) / 
+        (average.high - average.target);
+    }
     
     case 'timeInRange':
       // Normalize TIR: 0 = poor (0%), 1 = excellent (100%)
@@ -322,6 +359,13 @@ export function normalizeGlucoseStat(
       return Math.min(1, Math.max(0, (value - thresholds.rateOfChange.low) / 
         (thresholds.rateOfChange.high - thresholds.rateOfChange.low)));
     
+    case 'mage':
+    case 'lbgi':
+    case 'hbgi':
+      // Normalize excursions / risk indices: 0 = minimal, 1 = high
+      return Math.min(1, Math.max(0, (value - thresholds[type].low) / 
+        (thresholds[type].high - thresholds[type].low)));
+    
     default:
       return 0.5;
   }
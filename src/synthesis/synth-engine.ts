@@ -4,7 +4,16 @@
 import * as Tone from 'tone';
 import type { ADSREnvelope } from '../types';
 import { DEFAULT_ENVELOPE } from '../types';
-import { computePartialsFromWavetable } from './wavetable';
+import {
+  type Harmonics,
+  type WavetableGenerationOptions,
+  DEFAULT_GENERATION_OPTIONS,
+  buildHarmonicMipmaps,
+  computeHarmonicsFromWavetable,
+  getMipmapLevel,
+  mixHarmonics,
+  removeHarmonicPhases,
+} from './wavetable';
 import { EffectsChain, getEffectsChain } from './effects-chain';
 
 // Maximum polyphony per oscillator
@@ -14,24 +23,90 @@ const NUM_OSCILLATORS = 3;
 // Small lookahead for stable audio timing (in seconds)
 const AUDIO_LOOKAHEAD = 0.01;
 
+// How wavetables are turned into oscillator waves:
+// 'phase' plays the table's actual shape, 'magnitude' keeps the harmonic levels with all phases at zero
+export type PartialMode = 'phase' | 'magnitude';
+
+/**
+ * One voice: a Web Audio oscillator playing a PeriodicWave through an amplitude envelope
+ * setPeriodicWave() is the supported way to play harmonics with their phases, and the node keeps
+ * the wave it was given until the next one. The oscillator runs from creation; the envelope gates it.
+ */
+class WavetableVoice {
+  private oscillator: OscillatorNode;
+  readonly envelope: Tone.AmplitudeEnvelope;
+
+  constructor(envelope: ADSREnvelope, output: Tone.InputNode) {
+    this.envelope = new Tone.AmplitudeEnvelope(envelope).connect(output);
+    this.oscillator = Tone.getContext().createOscillator();
+    this.oscillator.connect(this.envelope.input.input);
+    this.oscillator.start();
+  }
+
+  /**
+   * Play a wave from now on (also changes a sounding note)
+   */
+  setWave(wave: PeriodicWave): void {
+    this.oscillator.setPeriodicWave(wave);
+  }
+
+  /**
+   * Go back to a plain sine
+   */
+  reset(): void {
+    this.oscillator.type = 'sine';
+  }
+
+  /**
+   * Start a note at a context time
+   */
+  triggerAttack(note: string, time: number, velocity: number): void {
+    this.oscillator.frequency.setValueAtTime(noteToFrequency(note), time);
+    this.envelope.triggerAttack(time, velocity);
+  }
+
+  /**
+   * Release the note at a context time
+   */
+  triggerRelease(time: number): void {
+    this.envelope.triggerRelease(time);
+  }
+
+  /**
+   * Stop the oscillator and free the nodes
+   */
+  dispose(): void {
+    this.oscillator.stop();
+    this.oscillator.disconnect();
+    this.envelope.dispose();
+  }
+}
+
 interface OscillatorLayer {
-  synths: Tone.Synth[];
-  availableVoices: Set<Tone.Synth>; // O(1) voice availability tracking
+  synths: WavetableVoice[];
+  availableVoices: Set<WavetableVoice>; // O(1) voice availability tracking
   volume: Tone.Volume;
   wavetable: Float32Array | null;
-  partials: number[];
+  harmonics: Harmonics | null;
+  frames: Float32Array[];     // multi-frame wavetable, one frame per hour of the source
+  frameHarmonics: Harmonics[];
+  position: number | null;    // 0-1 scan through the frames; null plays the whole-day cycle
+  mipmaps: PeriodicWave[];    // band-limited waves per octave, for the current position
+  voiceLevels: Map<WavetableVoice, number>; // mipmap level each voice's oscillator holds
+  generation: WavetableGenerationOptions; // how the UI builds this oscillator's wavetables
   dayLabel: string;
   level: number;
 }
 
 export class GlucoseSynth {
   private oscillators: OscillatorLayer[] = [];
-  private activeVoices: Map<string, Tone.Synth[]> = new Map();
+  private activeVoices: Map<string, WavetableVoice[]> = new Map();
   private masterVolume: Tone.Volume;
   private effectsChain: EffectsChain;
   private envelope: ADSREnvelope = { ...DEFAULT_ENVELOPE };
   private isInitialized = false;
   private userVolume: number = 0.7; // Store user's intended volume
+  private partialMode: PartialMode = 'phase';
 
   constructor() {
     // Initialize effects chain
@@ -51,21 +126,11 @@ export class GlucoseSynth {
   private initializeOscillators(): void {
     for (let osc = 0; osc < NUM_OSCILLATORS; osc++) {
       const volume = new Tone.Volume(0).connect(this.masterVolume);
-      const synths: Tone.Synth[] = [];
-      const availableVoices = new Set<Tone.Synth>();
+      const synths: WavetableVoice[] = [];
+      const availableVoices = new Set<WavetableVoice>();
 
       for (let i = 0; i < MAX_VOICES; i++) {
-        const synth = new Tone.Synth({
-          oscillator: {
-            type: 'sine',
-          },
-          envelope: {
-            attack: this.envelope.attack,
-            decay: this.envelope.decay,
-            sustain: this.envelope.sustain,
-            release: this.envelope.release,
-          },
-        }).connect(volume);
+        const synth = new WavetableVoice(this.envelope, volume);
 
         synths.push(synth);
         availableVoices.add(synth); // All voices start available
@@ -76,7 +141,13 @@ export class GlucoseSynth {
         availableVoices,
         volume,
         wavetable: null,
-        partials: [],
+        harmonics: null,
+        frames: [],
+        frameHarmonics: [],
+        position: null,
+        mipmaps: [],
+        voiceLevels: new Map(),
+        generation: { ...DEFAULT_GENERATION_OPTIONS },
         dayLabel: '',
         level: 0.5, // All oscillators start at half volume
       });
@@ -109,14 +180,17 @@ export class GlucoseSynth {
   }
 
   /**
-   * Load a wavetable into a specific oscillator
+   * Load a wavetable (and optionally its frames) into a specific oscillator
+   * The scan position is kept, so a new day plays at the same time of day
    */
-  setWavetable(oscillatorIndex: number, wavetable: Float32Array, dayLabel: string = ''): void {
+  setWavetable(oscillatorIndex: number, wavetable: Float32Array, dayLabel: string = '', frames: Float32Array[] = []): void {
     if (oscillatorIndex < 0 || oscillatorIndex >= NUM_OSCILLATORS) return;
 
     const osc = this.oscillators[oscillatorIndex];
     osc.wavetable = wavetable;
-    osc.partials = computePartialsFromWavetable(wavetable, 64);
+    osc.harmonics = computeHarmonicsFromWavetable(wavetable, 64);
+    osc.frames = frames;
+    osc.frameHarmonics = frames.map(frame => computeHarmonicsFromWavetable(frame, 64));
     osc.dayLabel = dayLabel;
     
     this.updateOscillatorPartials(oscillatorIndex);
@@ -131,13 +205,17 @@ export class GlucoseSynth {
 
     const osc = this.oscillators[oscillatorIndex];
     osc.wavetable = null;
-    osc.partials = [];
+    osc.harmonics = null;
+    osc.frames = [];
+    osc.frameHarmonics = [];
+    osc.mipmaps = [];
     osc.dayLabel = '';
     
     // Reset to sine wave
     for (const synth of osc.synths) {
-      synth.oscillator.type = 'sine';
+      synth.reset();
     }
+    osc.voiceLevels.clear();
     
     this.updateGainCompensation();
   }
@@ -165,16 +243,93 @@ export class GlucoseSynth {
   /**
    * Get wavetable info for an oscillator
    */
-  getOscillatorInfo(oscillatorIndex: number): { wavetable: Float32Array | null; dayLabel: string; level: number } | null {
+  getOscillatorInfo(oscillatorIndex: number): {
+    wavetable: Float32Array | null;
+    dayLabel: string;
+    level: number;
+    frameCount: number;
+    position: number | null;
+  } | null {
     if (oscillatorIndex < 0 || oscillatorIndex >= NUM_OSCILLATORS) return null;
     const osc = this.oscillators[oscillatorIndex];
     return {
       wavetable: osc.wavetable,
       dayLabel: osc.dayLabel,
       level: osc.level,
+      frameCount: osc.frames.length,
+      position: osc.position,
     };
   }
 
+  /**
+   * Set the scan position through an oscillator's frames (0 = first frame, 1 = last)
+   * null goes back to the whole-day cycle. Playing notes follow the change.
+   */
+  setOscillatorPosition(oscillatorIndex: number, position: number | null): void {
+    if (oscillatorIndex < 0 || oscillatorIndex >= NUM_OSCILLATORS) return;
+
+    const osc = this.oscillators[oscillatorIndex];
+    osc.position = position === null ? null : Math.max(0, Math.min(1, position));
+    this.updateOscillatorPartials(oscillatorIndex);
+  }
+
+  /**
+   * Get oscillator scan position (null when playing the whole-day cycle)
+   */
+  getOscillatorPosition(oscillatorIndex: number): number | null {
+    if (oscillatorIndex < 0 || oscillatorIndex >= NUM_OSCILLATORS) return null;
+    return this.oscillators[oscillatorIndex].position;
+  }
+
+  /**
+   * Remember how an oscillator's wavetables are generated
+   * The synth only plays the tables it is given; the mixer regenerates them from these options.
+   */
+  setOscillatorGeneration(oscillatorIndex: number, generation: WavetableGenerationOptions): void {
+    if (oscillatorIndex < 0 || oscillatorIndex >= NUM_OSCILLATORS) return;
+    this.oscillators[oscillatorIndex].generation = { ...generation };
+  }
+
+  /**
+   * Get how an oscillator's wavetables are generated
+   */
+  getOscillatorGeneration(oscillatorIndex: number): WavetableGenerationOptions {
+    if (oscillatorIndex < 0 || oscillatorIndex >= NUM_OSCILLATORS) return { ...DEFAULT_GENERATION_OPTIONS };
+    return { ...this.oscillators[oscillatorIndex].generation };
+  }
+
+  /**
+   * Harmonics at the oscillator's scan position, blended between the two nearest frames
+   */
+  private getScannedHarmonics(osc: OscillatorLayer): Harmonics | null {
+    if (osc.position === null || osc.frameHarmonics.length === 0) {
+      return osc.harmonics;
+    }
+
+    const frame = osc.position * (osc.frameHarmonics.length - 1);
+    const lower = Math.floor(frame);
+    const upper = Math.min(lower + 1, osc.frameHarmonics.length - 1);
+    return mixHarmonics(osc.frameHarmonics[lower], osc.frameHarmonics[upper], frame - lower);
+  }
+
+  /**
+   * Choose between phase-accurate waves and magnitude-only partials for all oscillators
+   */
+  setPartialMode(mode: PartialMode): void {
+    if (mode === this.partialMode) return;
+    this.partialMode = mode;
+    for (let i = 0; i < NUM_OSCILLATORS; i++) {
+      this.updateOscillatorPartials(i);
+    }
+  }
+
+  /**
+   * Get how wavetables are turned into oscillator waves
+   */
+  getPartialMode(): PartialMode {
+    return this.partialMode;
+  }
+
   /**
    * Set oscillator mix level (0-1)
    */
@@ -202,18 +357,37 @@ export class GlucoseSynth {
 
   /**
    * Update oscillator partials
+   * Rebuilds the band-limited mipmaps and reloads every voice at the level it last played.
+   * Magnitude mode plays the same harmonics with their phases dropped, so the two modes only
+   * differ in phase.
    */
   private updateOscillatorPartials(oscillatorIndex: number): void {
     const osc = this.oscillators[oscillatorIndex];
-    if (osc.partials.length === 0) return;
-
+    const harmonics = this.getScannedHarmonics(osc);
+    if (!harmonics) return;
+
+    const levels = buildHarmonicMipmaps(
+      this.partialMode === 'phase' ? harmonics : removeHarmonicPhases(harmonics),
+      Tone.getContext().sampleRate
+    );
+    osc.mipmaps = levels.map(createVoiceWave);
     for (const synth of osc.synths) {
-      try {
-        synth.oscillator.type = 'custom';
-        (synth.oscillator as any).partials = osc.partials;
-      } catch (e) {
-        console.warn('Failed to set custom oscillator:', e);
-      }
+      this.applyMipmapLevel(osc, synth, osc.voiceLevels.get(synth) ?? 0, true);
+    }
+  }
+
+  /**
+   * Load a voice with the wave of a mipmap level (skipped when it already holds it)
+   */
+  private applyMipmapLevel(osc: OscillatorLayer, synth: WavetableVoice, level: number, force = false): void {
+    if (osc.mipmaps.length === 0) return;
+    if (!force && osc.voiceLevels.get(synth) === level) return;
+
+    try {
+      synth.setWave(osc.mipmaps[level]);
+      osc.voiceLevels.set(synth, level);
+    } catch (e) {
+      console.warn('Failed to set custom oscillator:', e);
     }
   }
 
@@ -255,8 +429,9 @@ export class GlucoseSynth {
       return;
     }
 
-    const activeForNote: Tone.Synth[] = [];
+    const activeForNote: WavetableVoice[] = [];
     const triggerTime = Tone.now() + AUDIO_LOOKAHEAD; // Slight lookahead for stable timing
+    const mipmapLevel = getMipmapLevel(noteToFrequency(note));
 
     for (const osc of this.oscillators) {
       // Skip oscillators with no wavetable or zero level
@@ -267,6 +442,8 @@ export class GlucoseSynth {
       
       if (availableVoice) {
         osc.availableVoices.delete(availableVoice); // Mark as in use
+        // Band-limit the voice for this note's octave
+        this.applyMipmapLevel(osc, availableVoice, mipmapLevel);
         availableVoice.triggerAttack(note, triggerTime, velocity);
         activeForNote.push(availableVoice);
       }
@@ -353,6 +530,24 @@ export class GlucoseSynth {
   }
 }
 
+/**
+ * Build a PeriodicWave at the RMS level of a full-scale sine
+ * The browser's own normalization scales each wave to its peak, so the same harmonics with other
+ * phases would play at another loudness; scaling by RMS keeps both partial modes equally loud.
+ */
+function createVoiceWave(harmonics: Harmonics): PeriodicWave {
+  let power = 0;
+  for (let k = 1; k < harmonics.real.length; k++) {
+    power += harmonics.real[k] * harmonics.real[k] + harmonics.imag[k] * harmonics.imag[k];
+  }
+  const scale = power > 0 ? 1 / Math.sqrt(power) : 0;
+  return Tone.getContext().createPeriodicWave(
+    harmonics.real.map(value => value * scale),
+    harmonics.imag.map(value => value * scale),
+    { disableNormalization: true }
+  );
+}
+
 // Singleton instance
 let synthInstance: GlucoseSynth | null = null;
 
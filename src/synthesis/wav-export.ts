@@ -0,0 +1,96 @@
+// WAV Wavetable Export
+// Writes wavetables as 32-bit float WAV files that other wavetable synths (Serum, Vital, hardware)
+// load frame by frame. The "clm " chunk tells them the frame size.
+
+import { WAVETABLE_SIZE } from './wavetable';
+
+export const WAV_FILE_EXTENSION = '.wav';
+
+// Nominal rate in the header; wavetable synths read the samples as frames, not as time
+const WAV_SAMPLE_RATE = 44100;
+
+// WAVE_FORMAT_IEEE_FLOAT, mono 32-bit samples
+const FORMAT_IEEE_FLOAT = 3;
+const BYTES_PER_SAMPLE = 4;
+
+// Serum's frame size marker, also read by Vital, Bitwig and others ("<!>2048 ...")
+const CLM_TEXT = `<!>${WAVETABLE_SIZE} 00000000 wavetable (Glukoscillator)`;
+
+/**
+ * Encode wavetables as a mono 32-bit float WAV, one WAVETABLE_SIZE-sample frame after another
+ * Frames of another length are resampled, and samples are clamped to ±1.
+ */
+export function encodeWavetableWAV(frames: Float32Array[]): ArrayBuffer {
+  const sampleCount = frames.length * WAVETABLE_SIZE;
+  const dataSize = sampleCount * BYTES_PER_SAMPLE;
+  // Chunks are padded to an even length
+  const clmSize = CLM_TEXT.length + (CLM_TEXT.length % 2);
+
+  // RIFF header, "fmt " (18 bytes for non-PCM formats), "clm ", "fact", "data"
+  const size = 12 + (8 + 18) + (8 + clmSize) + (8 + 4) + (8 + dataSize);
+  const buffer = new ArrayBuffer(size);
+  const view = new DataView(buffer);
+  let offset = 0;
+
+  const writeTag = (tag: string) => {
+    for (let i = 0; i < tag.length; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+    offset += tag.length;
+  };
+  const writeUint32 = (value: number) => {
+    view.setUint32(offset, value, true);
+    offset += 4;
+  };
+  const writeUint16 = (value: number) => {
+    view.setUint16(offset, value, true);
+    offset += 2;
+  };
+
+  writeTag('RIFF');
+  writeUint32(size - 8);
+  writeTag('WAVE');
+
+  writeTag('fmt ');
+  writeUint32(18);
+  writeUint16(FORMAT_IEEE_FLOAT);
+  writeUint16(1);
+  writeUint32(WAV_SAMPLE_RATE);
+  writeUint32(WAV_SAMPLE_RATE * BYTES_PER_SAMPLE);
+  writeUint16(BYTES_PER_SAMPLE);
+  writeUint16(BYTES_PER_SAMPLE * 8);
+  writeUint16(0);
+
+  writeTag('clm ');
+  writeUint32(CLM_TEXT.length);
+  writeTag(CLM_TEXT);
+  offset += clmSize - CLM_TEXT.length;
+
+  writeTag('fact');
+  writeUint32(4);
+  writeUint32(sampleCount);
+
+  writeTag('data');
+  writeUint32(dataSize);
+  for (const frame of frames) {
+    const samples = frame.length === WAVETABLE_SIZE ? frame : resampleFrame(frame, WAVETABLE_SIZE);
+    for (let i = 0; i < WAVETABLE_SIZE; i++) {
+      view.setFloat32(offset, Math.max(-1, Math.min(1, samples[i])), true);
+      offset += BYTES_PER_SAMPLE;
+    }
+  }
+
+  return buffer;
+}
+
+/**
+ * Stretch a single-cycle frame to another length (linear, wrapping around the loop point)
+ */
+function resampleFrame(frame: Float32Array, length: number): Float32Array {
+  const resampled = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const position = (i / length) * frame.length;
+    const index = Math.floor(position);
+    const frac = position - index;
+    resampled[i] = frame[index] * (1 - frac) + frame[(index + 1) % frame.length] * frac;
+  }
+  return resampled;
+}
@@ -1,12 +1,89 @@
 // Wavetable Generation
 // Converts glucose readings into playable waveforms
 
-import type { DailyGlucoseData } from '../types';
+import type { DailyGlucoseData, GapFillPolicy, ImportProgressCallback } from '../types';
 import { GLUCOSE_RANGE } from '../types';
+import { type GlucoseTargets, getGlucoseTargets } from '../parser/glucose-targets';
 
 // Standard wavetable size (power of 2 for FFT efficiency)
 export const WAVETABLE_SIZE = 2048;
 
+// Most frames a multi-frame wavetable is split into (one per hour of a day)
+export const MAX_WAVETABLE_FRAMES = 24;
+
+// Smallest glucose swing (mg/dL) a frame is scaled to, so flat stretches stay quiet
+const MIN_FRAME_SWING = 20;
+
+// The same for rate-of-change tables, in wavetable units (half the swing)
+const MIN_DERIVATIVE_FRAME_SWING = 0.1;
+
+// Band-limited mipmaps: one level per octave from C1 (level 0 also covers lower notes)
+const MIPMAP_BASE_FREQUENCY = 32.703;
+export const MIPMAP_LEVELS = 9;
+
+// Share of the Nyquist frequency harmonics may reach (keeps them clear of the filter edge)
+const NYQUIST_HEADROOM = 0.9;
+
+// How glucose values become wavetable samples
+export type WavetableMode =
+  | 'day'            // the day's own min/max spans -1..1
+  | 'physiological'  // fixed 40-400 mg/dL range, so days compare in level
+  | 'derivative'     // rate of change (rising above, falling below the centre)
+  | 'log';           // log-scaled, giving lows as much room as highs
+
+// How the curve is drawn between readings (inside sensor gaps the gap fill policy decides)
+export type WavetableInterpolation = Exclude<GapFillPolicy, 'silence'>;
+
+// How the jump between a table's last and first sample is hidden
+export type SeamTreatment =
+  | 'none'
+  | 'crossfade'  // both sides of the seam ramp to meet halfway
+  | 'window'     // both ends taper to the centre line
+  | 'mirror';    // the curve plays forwards then backwards, so the ends always meet
+
+export interface WavetableGenerationOptions {
+  mode: WavetableMode;
+  smoothing: number;                     // 3-point smoothing passes (0 = none)
+  interpolation: WavetableInterpolation;
+  removeDC: boolean;                     // center the table on its mean
+  seam: SeamTreatment;
+}
+
+export const DEFAULT_GENERATION_OPTIONS: WavetableGenerationOptions = {
+  mode: 'day',
+  smoothing: 2,
+  interpolation: 'linear',
+  removeDC: false,
+  seam: 'none',
+};
+
+export const WAVETABLE_MODES: { id: WavetableMode; label: string }[] = [
+  { id: 'day', label: 'Day range' },
+  { id: 'physiological', label: 'Fixed range' },
+  { id: 'derivative', label: 'Rate of change' },
+  { id: 'log', label: 'Log scale' },
+];
+
+export const WAVETABLE_INTERPOLATIONS: WavetableInterpolation[] = ['linear', 'hold', 'spline'];
+
+export const MAX_SMOOTHING_PASSES = 8;
+
+export const SEAM_TREATMENTS: { id: SeamTreatment; label: string }[] = [
+  { id: 'none', label: 'No seam fix' },
+  { id: 'crossfade', label: 'Crossfade' },
+  { id: 'window', label: 'Window' },
+  { id: 'mirror', label: 'Mirror' },
+];
+
+// Share of the table at each end that seam crossfades and windows act on
+const SEAM_FADE_FRACTION = 1 / 16;
+
+// Fourier coefficients of a single-cycle waveform, as taken by a PeriodicWave
+export interface Harmonics {
+  real: Float32Array; // cosine terms
+  imag: Float32Array; // sine terms
+}
+
 // Pre-computed twiddle factors for FFT (cached for performance)
 let twiddleFactorsReal: Float32Array | null = null;
 let twiddleFactorsImag: Float32Array | null = null;
@@ -52,9 +129,9 @@ function bitReverse(arr: Float32Array, n: number): void {
 
 /**
  * Cooley-Tukey FFT algorithm - O(n log n) complexity
- * Returns magnitude spectrum for the first numPartials harmonics
+ * Returns the full complex spectrum (unscaled)
  */
-function fft(input: Float32Array, numPartials: number): number[] {
+function fft(input: Float32Array): { real: Float32Array; imag: Float32Array } {
   const N = input.length;
   
   // Ensure N is a power of 2
@@ -99,9 +176,18 @@ function fft(input: Float32Array, numPartials: number): number[] {
     }
   }
   
+  return { real, imag };
+}
+
+/**
+ * Magnitude spectrum for the first numPartials harmonics, normalized so the fundamental is 1
+ */
+function magnitudeSpectrum(input: Float32Array, numPartials: number): number[] {
+  const { real, imag } = fft(input);
+  
   // Extract magnitudes for the requested number of partials
   const partials: number[] = [];
-  const normFactor = 2 / N;
+  const normFactor = 2 / input.length;
   
   for (let k = 1; k <= numPartials; k++) {
     const magnitude = Math.sqrt(real[k] * real[k] + imag[k] * imag[k]) * normFactor;
@@ -115,9 +201,16 @@ function fft(input: Float32Array, numPartials: number): number[] {
 
 /**
  * Generate a wavetable from a day's glucose readings
- * The glucose curve becomes a single-cycle waveform
+ * The glucose curve becomes a single-cycle waveform spanning the day's real
+ * elapsed time (local midnight to midnight), so 23h/25h DST days and uneven
+ * reading intervals keep their true shape. Sensor gaps are filled per gapFill;
+ * the generation options pick the scaling, smoothing and interpolation.
  */
-export function generateWavetable(dayData: DailyGlucoseData): Float32Array {
+export function generateWavetable(
+  dayData: DailyGlucoseData,
+  gapFill: GapFillPolicy = 'linear',
+  generation: WavetableGenerationOptions = DEFAULT_GENERATION_OPTIONS
+): Float32Array {
   const readings = dayData.readings;
   
   if (readings.length === 0) {
@@ -127,19 +220,122 @@ export function generateWavetable(dayData: DailyGlucoseData): Float32Array {
   
   // Extract just the glucose values
   const values = readings.map(r => r.value);
+  const times = readings.map(r => r.timestamp.getTime());
   
-  // Normalize to [-1, 1] range
-  const normalized = normalizeGlucoseValues(values);
+  let wavetable: Float32Array;
+  if (generation.mode === 'derivative') {
+    // Slope of the day-normalized curve; a held value has no slope, so that is the
+    // derivative's silence
+    const curveFill = gapFill === 'silence' ? 'hold' : gapFill;
+    const curve = resampleOntoTimeline(normalizeGlucoseValues(values), times, dayData, curveFill, generation.interpolation, WAVETABLE_SIZE);
+    wavetable = differentiateWavetable(curve);
+  } else {
+    // Normalize to [-1, 1] range
+    const normalized = generation.mode === 'physiological' ? normalizeToPhysiologicalRange(values)
+      : generation.mode === 'log' ? normalizeLogValues(values)
+      : normalizeGlucoseValues(values);
+    
+    // Resample onto an even time grid across the day
+    wavetable = resampleOntoTimeline(normalized, times, dayData, gapFill, generation.interpolation, WAVETABLE_SIZE);
+  }
   
-  // Resample to wavetable size
-  const wavetable = resampleToWavetableSize(normalized, WAVETABLE_SIZE);
+  // Hide the loop seam before smoothing, which wraps around it
+  wavetable = treatSeam(wavetable, generation.seam);
   
   // Apply smoothing to reduce aliasing
-  smoothWavetable(wavetable);
+  smoothWavetable(wavetable, generation.smoothing);
+  
+  if (generation.removeDC) {
+    removeDCOffset(wavetable);
+  }
   
   return wavetable;
 }
 
+/**
+ * Hide the jump between a table's last and first sample (in place, except for mirroring)
+ */
+function treatSeam(wavetable: Float32Array, seam: SeamTreatment): Float32Array {
+  if (seam === 'mirror') return mirrorWavetable(wavetable);
+  
+  const corrected = wavetable;
+  const len = corrected.length;
+  const fade = Math.max(1, Math.round(len * SEAM_FADE_FRACTION));
+  
+  if (seam === 'crossfade') {
+    // Offset each side of the seam towards the midpoint, fading the offset out away from it
+    const meet = (corrected[len - 1] + corrected[0]) / 2;
+    const startOffset = meet - corrected[0];
+    const endOffset = meet - corrected[len - 1];
+    for (let i = 0; i < fade; i++) {
+      const weight = 1 - i / fade;
+      corrected[i] += startOffset * weight;
+      corrected[len - 1 - i] += endOffset * weight;
+    }
+  } else if (seam === 'window') {
+    // Tukey window: raised-cosine tapers at both ends, flat in between
+    for (let i = 0; i < fade; i++) {
+      const weight = 0.5 - 0.5 * Math.cos((Math.PI * i) / fade);
+      corrected[i] *= weight;
+      corrected[len - 1 - i] *= weight;
+    }
+  }
+  
+  return corrected;
+}
+
+/**
+ * Center a table on its mean (in place)
+ * A table whose peak moves past ±1 is scaled back into range
+ */
+function removeDCOffset(wavetable: Float32Array): void {
+  const len = wavetable.length;
+  let sum = 0;
+  for (const v of wavetable) sum += v;
+  const mean = sum / len;
+  
+  let peak = 0;
+  for (let i = 0; i < len; i++) {
+    wavetable[i] -= mean;
+    peak = Math.max(peak, Math.abs(wavetable[i]));
+  }
+  if (peak > 1) {
+    for (let i = 0; i < len; i++) wavetable[i] /= peak;
+  }
+}
+
+/**
+ * Squeeze a table into its first half and play it backwards in the second
+ */
+function mirrorWavetable(wavetable: Float32Array): Float32Array {
+  const len = wavetable.length;
+  const mirrored = new Float32Array(len);
+  
+  for (let i = 0; i < len; i++) {
+    // 0 → 1 over the first half, back to 0 over the second
+    let phase = (2 * i) / len;
+    if (phase > 1) phase = 2 - phase;
+    
+    const position = phase * (len - 1);
+    const index = Math.min(len - 2, Math.floor(position));
+    const fraction = position - index;
+    mirrored[i] = wavetable[index] * (1 - fraction) + wavetable[index + 1] * fraction;
+  }
+  
+  return mirrored;
+}
+
+/**
+ * Check whether generation options match the defaults the import builds every day's table with
+ */
+export function isDefaultGeneration(generation: WavetableGenerationOptions): boolean {
+  return generation.mode === DEFAULT_GENERATION_OPTIONS.mode &&
+    generation.smoothing === DEFAULT_GENERATION_OPTIONS.smoothing &&
+    generation.interpolation === DEFAULT_GENERATION_OPTIONS.interpolation &&
+    generation.removeDC === DEFAULT_GENERATION_OPTIONS.removeDC &&
+    generation.seam === DEFAULT_GENERATION_OPTIONS.seam;
+}
+
 /**
  * Normalize glucose values to [-1, 1] audio range
  * Uses the day's min/max for maximum dynamic range
@@ -151,8 +347,12 @@ export function normalizeGlucoseValues(values: number[]): Float32Array {
   
   // Use day's actual range for normalization
   // This gives each day its unique character
-  const min = Math.min(...values);
-  const max = Math.max(...values);
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of values) {
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
   const range = max - min;
   
   // Prevent division by zero (flat line)
@@ -191,34 +391,137 @@ export function normalizeToPhysiologicalRange(values: number[]): Float32Array {
 }
 
 /**
- * Resample normalized values to standard wavetable size
- * Uses linear interpolation
+ * Log-scaled normalization to [-1, 1] over the day's range
+ * Equal ratios get equal steps, so a drop from 80 to 60 swings as far as one from 240 to 180
  */
-function resampleToWavetableSize(values: Float32Array, targetSize: number): Float32Array {
-  if (values.length === 0) {
-    return new Float32Array(targetSize).fill(0);
-  }
+export function normalizeLogValues(values: number[]): Float32Array {
+  return normalizeGlucoseValues(values.map(v => Math.log(Math.max(1, v))));
+}
+
+/**
+ * First derivative of a sampled curve, scaled so the steepest slope reaches ±1
+ * Central differences inside, one-sided at the ends, so the jump from the day's end back to
+ * its start doesn't count as a slope
+ */
+function differentiateWavetable(curve: Float32Array): Float32Array {
+  const len = curve.length;
+  const slope = new Float32Array(len);
+  if (len < 2) return slope;
   
-  if (values.length === targetSize) {
-    return values;
+  slope[0] = curve[1] - curve[0];
+  slope[len - 1] = curve[len - 1] - curve[len - 2];
+  for (let i = 1; i < len - 1; i++) {
+    slope[i] = (curve[i + 1] - curve[i - 1]) / 2;
   }
   
+  let peak = 0;
+  for (const v of slope) peak = Math.max(peak, Math.abs(v));
+  if (peak === 0) return slope;
+  
+  for (let i = 0; i < len; i++) {
+    slope[i] /= peak;
+  }
+  return slope;
+}
+
+/**
+ * Resample values taken at (sorted) instants onto an even time grid
+ * Sample i sits at startTime + i/targetSize of the day. Between readings the interpolation
+ * decides; inside the day's gaps the fill policy does.
+ */
+function resampleOntoTimeline(
+  values: Float32Array,
+  times: number[],
+  dayData: DailyGlucoseData,
+  gapFill: GapFillPolicy,
+  interpolation: WavetableInterpolation,
+  targetSize: number
+): Float32Array {
   const result = new Float32Array(targetSize);
-  const ratio = values.length / targetSize;
+  if (values.length === 0) {
+    return result;
+  }
+  
+  const { startTime, endTime, gaps } = dayData;
+  const span = endTime - startTime;
+  const last = times.length - 1;
+  let j = 0;
+  let g = 0;
   
   for (let i = 0; i < targetSize; i++) {
-    const srcIndex = i * ratio;
-    const srcIndexFloor = Math.floor(srcIndex);
-    const srcIndexCeil = Math.min(srcIndexFloor + 1, values.length - 1);
-    const fraction = srcIndex - srcIndexFloor;
+    const t = startTime + (i / targetSize) * span;
+    
+    // Advance to the last reading at or before t, and the first gap not yet passed
+    // (grid times only increase)
+    while (j < last && times[j + 1] <= t) j++;
+    while (g < gaps.length && gaps[g].end <= t) g++;
+    
+    const inGap = g < gaps.length && gaps[g].start <= t;
+    const fill = inGap ? gapFill : interpolation;
     
-    // Linear interpolation
-    result[i] = values[srcIndexFloor] * (1 - fraction) + values[srcIndexCeil] * fraction;
+    if (fill === 'silence') {
+      result[i] = 0;
+    } else if (t <= times[0]) {
+      result[i] = values[0];
+    } else if (j >= last) {
+      result[i] = values[last];
+    } else if (fill === 'hold') {
+      result[i] = values[j];
+    } else if (fill === 'spline') {
+      result[i] = interpolateSpline(values, times, j, t);
+    } else {
+      const dt = times[j + 1] - times[j];
+      const fraction = dt > 0 ? (t - times[j]) / dt : 0;
+      result[i] = values[j] * (1 - fraction) + values[j + 1] * fraction;
+    }
   }
   
   return result;
 }
 
+/**
+ * Monotone cubic (Fritsch-Carlson) interpolation between readings j and j+1
+ * End slopes come from the neighbouring intervals so the curve continues the trend
+ * on either side of the gap without overshooting the endpoint values
+ */
+function interpolateSpline(values: Float32Array, times: number[], j: number, t: number): number {
+  const t0 = times[j];
+  const t1 = times[j + 1];
+  const v0 = values[j];
+  const v1 = values[j + 1];
+  const h = t1 - t0;
+  if (h <= 0) return v0;
+  
+  const secant = (v1 - v0) / h;
+  const slopeBetween = (a: number, b: number): number => {
+    if (a < 0 || b >= times.length || times[b] <= times[a]) return secant;
+    return (values[b] - values[a]) / (times[b] - times[a]);
+  };
+  
+  let m0 = slopeBetween(j - 1, j);
+  let m1 = slopeBetween(j + 1, j + 2);
+  
+  // Limit slopes so the curve stays monotone across the gap
+  if (secant === 0) {
+    m0 = 0;
+    m1 = 0;
+  } else {
+    if (Math.sign(m0) !== Math.sign(secant)) m0 = 0;
+    if (Math.sign(m1) !== Math.sign(secant)) m1 = 0;
+    m0 = Math.sign(m0) * Math.min(Math.abs(m0), 3 * Math.abs(secant));
+    m1 = Math.sign(m1) * Math.min(Math.abs(m1), 3 * Math.abs(secant));
+  }
+  
+  // Cubic Hermite basis
+  const s = (t - t0) / h;
+  const s2 = s * s;
+  const s3 = s2 * s;
+  return (2 * s3 - 3 * s2 + 1) * v0 +
+    (s3 - 2 * s2 + s) * h * m0 +
+    (-2 * s3 + 3 * s2) * v1 +
+    (s3 - s2) * h * m1;
+}
+
 // Reusable buffer for smoothing operations (avoids allocation in hot path)
 let smoothingBuffer: Float32Array | null = null;
 
@@ -255,15 +558,171 @@ function smoothWavetable(wavetable: Float32Array, passes: number = 2): void {
  * Tone.js uses Fourier coefficients for custom oscillators
  */
 export function computePartialsFromWavetable(wavetable: Float32Array, numPartials: number = 64): number[] {
-  return fft(wavetable, numPartials);
+  return magnitudeSpectrum(wavetable, numPartials);
+}
+
+/**
+ * Cosine (real) and sine (imag) coefficients of a wavetable's harmonics, indexed by harmonic
+ * number (index 0, the DC offset, is left at 0). Unlike magnitude partials these keep each
+ * harmonic's phase, so a PeriodicWave built from them reproduces the table's actual shape.
+ * Normalized like the partials, so the fundamental's amplitude is 1.
+ */
+export function computeHarmonicsFromWavetable(wavetable: Float32Array, numPartials: number = 64): Harmonics {
+  const spectrum = fft(wavetable);
+  const real = new Float32Array(numPartials + 1);
+  const imag = new Float32Array(numPartials + 1);
+  
+  // x[n] = sum of a_k cos(2πkn/N) + b_k sin(2πkn/N), with a_k = 2/N Re X[k] and b_k = -2/N Im X[k]
+  const fundamental = Math.hypot(spectrum.real[1], spectrum.imag[1]) * (2 / wavetable.length);
+  const normFactor = (2 / wavetable.length) / (fundamental || 1);
+  for (let k = 1; k <= numPartials; k++) {
+    real[k] = spectrum.real[k] * normFactor;
+    imag[k] = -spectrum.imag[k] * normFactor;
+  }
+  
+  return { real, imag };
+}
+
+/**
+ * The same harmonic levels with every phase at zero (sine terms only), as magnitude partials play
+ */
+export function removeHarmonicPhases(harmonics: Harmonics): Harmonics {
+  const imag = new Float32Array(harmonics.imag.length);
+  for (let k = 1; k < imag.length; k++) {
+    imag[k] = Math.hypot(harmonics.real[k], harmonics.imag[k]);
+  }
+  return { real: new Float32Array(harmonics.real.length), imag };
+}
+
+/**
+ * Blend two harmonic sets (mix 0 = a, 1 = b); blending coefficients crossfades the waveforms
+ */
+export function mixHarmonics(a: Harmonics, b: Harmonics, mix: number): Harmonics {
+  const real = new Float32Array(a.real.length);
+  const imag = new Float32Array(a.imag.length);
+  for (let k = 0; k < real.length; k++) {
+    real[k] = a.real[k] * (1 - mix) + b.real[k] * mix;
+    imag[k] = a.imag[k] * (1 - mix) + b.imag[k] * mix;
+  }
+  return { real, imag };
+}
+
+/**
+ * Mipmap level (octave band) for a note frequency
+ * Level 0 covers everything up to C2, then one level per octave up to the top of the keyboard
+ */
+export function getMipmapLevel(frequency: number): number {
+  if (!(frequency > 0)) return 0;
+  const octave = Math.floor(Math.log2(frequency / MIPMAP_BASE_FREQUENCY));
+  return Math.max(0, Math.min(MIPMAP_LEVELS - 1, octave));
+}
+
+/**
+ * Number of harmonics a mipmap level keeps: those that stay below the headroom-adjusted
+ * Nyquist frequency for the highest note in its octave, so high notes don't alias
+ */
+function getMipmapPartialCount(level: number, sampleRate: number, available: number): number {
+  const limit = (sampleRate / 2) * NYQUIST_HEADROOM;
+  const highestFrequency = MIPMAP_BASE_FREQUENCY * Math.pow(2, level + 1);
+  return Math.max(1, Math.min(available, Math.floor(limit / highestFrequency)));
+}
+
+/**
+ * Band-limited copies of a harmonic set, one per mipmap level
+ */
+export function buildHarmonicMipmaps(harmonics: Harmonics, sampleRate: number): Harmonics[] {
+  const levels: Harmonics[] = [];
+  for (let level = 0; level < MIPMAP_LEVELS; level++) {
+    // Index 0 is the DC slot, so n harmonics take n + 1 entries
+    const count = getMipmapPartialCount(level, sampleRate, harmonics.real.length - 1) + 1;
+    levels.push({ real: harmonics.real.slice(0, count), imag: harmonics.imag.slice(0, count) });
+  }
+  return levels;
+}
+
+/**
+ * Number of frames a day or window is split into: one per hour, between 2 and MAX_WAVETABLE_FRAMES
+ */
+export function getWavetableFrameCount(dayData: DailyGlucoseData): number {
+  const hours = Math.round((dayData.endTime - dayData.startTime) / 3600000);
+  return Math.max(2, Math.min(MAX_WAVETABLE_FRAMES, hours));
+}
+
+/**
+ * Split a day's wavetable into a stack of single-cycle frames, one per stretch of the day
+ * Frame k is the k-th slice of the curve stretched to a full cycle, so scanning through the
+ * frames plays the day in order. Each frame is centered and scaled to its own swing; a quiet
+ * stretch is scaled as if it spanned MIN_FRAME_SWING so sensor noise isn't blown up.
+ * The wavetable defaults to the day's own; pass the options it was generated with otherwise.
+ * It should not have a seam treatment or DC removal: each frame gets those itself.
+ * Returns no frames for a flat or empty day.
+ */
+export function generateWavetableFrames(
+  dayData: DailyGlucoseData,
+  wavetable: Float32Array | null = dayData.wavetable,
+  generation: WavetableGenerationOptions = DEFAULT_GENERATION_OPTIONS,
+  frameCount: number = getWavetableFrameCount(dayData)
+): Float32Array[] {
+  const mode = generation.mode;
+  if (!wavetable || dayData.readings.length === 0 || dayData.stats.max <= dayData.stats.min) return [];
+
+  // Half the minimum swing in wavetable units, measured around the day's average
+  const toWave = getGlucoseToWave(dayData, mode);
+  const minHalfSwing = toWave
+    ? Math.min(1, Math.abs(toWave(dayData.stats.avg + MIN_FRAME_SWING / 2) - toWave(Math.max(1, dayData.stats.avg - MIN_FRAME_SWING / 2))) / 2)
+    : MIN_DERIVATIVE_FRAME_SWING;
+  const sliceLength = wavetable.length / frameCount;
+  const frames: Float32Array[] = [];
+
+  for (let k = 0; k < frameCount; k++) {
+    const frame = new Float32Array(WAVETABLE_SIZE);
+    const sliceStart = k * sliceLength;
+
+    // Stretch the slice with linear interpolation (the last frame wraps to the day's start)
+    for (let i = 0; i < WAVETABLE_SIZE; i++) {
+      const position = sliceStart + (i / WAVETABLE_SIZE) * sliceLength;
+      const index = Math.floor(position);
+      const fraction = position - index;
+      const a = wavetable[index % wavetable.length];
+      const b = wavetable[(index + 1) % wavetable.length];
+      frame[i] = a * (1 - fraction) + b * fraction;
+    }
+
+    let min = Infinity;
+    let max = -Infinity;
+    for (const v of frame) {
+      if (v < min) min = v;
+      if (v > max) max = v;
+    }
+    const center = (min + max) / 2;
+    const halfSwing = Math.max((max - min) / 2, minHalfSwing);
+    for (let i = 0; i < WAVETABLE_SIZE; i++) {
+      frame[i] = (frame[i] - center) / halfSwing;
+    }
+
+    const treated = treatSeam(frame, generation.seam);
+    smoothWavetable(treated, generation.smoothing);
+    if (generation.removeDC) {
+      removeDCOffset(treated);
+    }
+    frames.push(treated);
+  }
+
+  return frames;
 }
 
 /**
  * Generate wavetables for all days in the dataset
  */
-export function generateAllWavetables(days: Map<string, DailyGlucoseData>): void {
+export function generateAllWavetables(
+  days: Map<string, DailyGlucoseData>,
+  gapFill: GapFillPolicy = 'linear',
+  onProgress?: ImportProgressCallback
+): void {
+  let done = 0;
   for (const [, dayData] of days) {
-    dayData.wavetable = generateWavetable(dayData);
+    dayData.wavetable = generateWavetable(dayData, gapFill);
+    onProgress?.(++done / days.size);
   }
 }
 
@@ -282,3 +741,96 @@ export function getWaveformForDisplay(wavetable: Float32Array, points: number =
   return result;
 }
 
+// Target range and hypo/hyper thresholds in wavetable units, for display overlays
+export interface TargetBands {
+  targetLow: number;
+  targetHigh: number;
+  hypo: number;
+  hyper: number;
+}
+
+/**
+ * Mapping from a glucose value (mg/dL) to a mode's wavetable scale
+ * Null when the mode has no glucose scale (rate of change) or the day is flat or empty
+ */
+function getGlucoseToWave(dayData: DailyGlucoseData, mode: WavetableMode): ((value: number) => number) | null {
+  const { min, max } = dayData.stats;
+  if (mode === 'derivative' || dayData.readings.length === 0 || max <= min) return null;
+  
+  if (mode === 'physiological') {
+    const { min: low, max: high } = GLUCOSE_RANGE.absolute;
+    return (value: number) => ((value - low) / (high - low)) * 2 - 1;
+  }
+  if (mode === 'log') {
+    const logMin = Math.log(Math.max(1, min));
+    const logRange = Math.log(Math.max(1, max)) - logMin;
+    return (value: number) => ((Math.log(Math.max(1, value)) - logMin) / logRange) * 2 - 1;
+  }
+  return (value: number) => ((value - min) / (max - min)) * 2 - 1;
+}
+
+/**
+ * Inverse of getGlucoseToWave: the glucose value (mg/dL) at a point of a mode's wavetable scale
+ */
+function getWaveToGlucose(dayData: DailyGlucoseData, mode: WavetableMode): ((wave: number) => number) | null {
+  const { min, max } = dayData.stats;
+  if (mode === 'derivative') return null;
+  
+  if (mode === 'physiological') {
+    const { min: low, max: high } = GLUCOSE_RANGE.absolute;
+    return (wave: number) => low + ((wave + 1) / 2) * (high - low);
+  }
+  if (mode === 'log') {
+    const logMin = Math.log(Math.max(1, min));
+    const logRange = Math.log(Math.max(1, max)) - logMin;
+    return (wave: number) => Math.exp(logMin + ((wave + 1) / 2) * logRange);
+  }
+  return (wave: number) => min + ((wave + 1) / 2) * (max - min);
+}
+
+/**
+ * Glucose values (mg/dL) at the bottom (-1), middle (0) and top (1) of a mode's wavetable scale
+ * The middle of a log-scaled table is the geometric mean of its range. Null for rate-of-change
+ * tables, whose scale is the day's steepest slope
+ */
+export function getGlucoseScaleForDisplay(
+  dayData: DailyGlucoseData,
+  mode: WavetableMode = 'day'
+): { min: number; mid: number; max: number } | null {
+  const toGlucose = getWaveToGlucose(dayData, mode);
+  if (!toGlucose) return null;
+  return { min: toGlucose(-1), mid: toGlucose(0), max: toGlucose(1) };
+}
+
+/**
+ * Map the glucose targets onto a day's wavetable scale (-1 = day min, 1 = day max by default)
+ * Thresholds outside the scale land outside -1..1; null for a flat day or a rate-of-change table
+ */
+export function getTargetBandsForDisplay(
+  dayData: DailyGlucoseData,
+  targets: GlucoseTargets = getGlucoseTargets(),
+  mode: WavetableMode = 'day'
+): TargetBands | null {
+  const toWave = getGlucoseToWave(dayData, mode);
+  if (!toWave) return null;
+  
+  return {
+    targetLow: toWave(targets.targetLow),
+    targetHigh: toWave(targets.targetHigh),
+    hypo: toWave(targets.hypo),
+    hyper: toWave(targets.hyper),
+  };
+}
+
+/**
+ * Get a day's gaps as fractions (0-1) of its timeline, for display overlays
+ */
+export function getGapSpansForDisplay(dayData: DailyGlucoseData): { from: number; to: number }[] {
+  const span = dayData.endTime - dayData.startTime;
+  if (span <= 0) return [];
+  
+  return dayData.gaps.map(gap => ({
+    from: (gap.start - dayData.startTime) / span,
+    to: (gap.end - dayData.startTime) / span,
+  }));
+}
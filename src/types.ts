@@ -4,11 +4,91 @@ export interface GlucoseReading {
   timestamp: Date;
   value: number; // mg/dL or mmol/L
   recordType: number; // 0 = historic, 1 = scan
+  trend?: TrendDirection; // CGM trend arrow, when the source provides one
+  source?: number; // index into ParsedLibreViewData.sources
+}
+
+// Trend arrows as reported by Nightscout / Dexcom
+export type TrendDirection =
+  | 'DoubleUp'
+  | 'SingleUp'
+  | 'FortyFiveUp'
+  | 'Flat'
+  | 'FortyFiveDown'
+  | 'SingleDown'
+  | 'DoubleDown'
+  | 'NOT COMPUTABLE'
+  | 'RATE OUT OF RANGE';
+
+// Non-glucose entries logged alongside the CGM curve
+export type GlucoseEventType =
+  | 'rapid-insulin'  // units
+  | 'long-insulin'   // units
+  | 'carbs'          // grams
+  | 'note'           // free text only
+  | 'strip-glucose'  // mg/dL (converted like readings)
+  | 'ketone';        // mmol/L
+
+export interface GlucoseEvent {
+  timestamp: Date;
+  type: GlucoseEventType;
+  value: number | null; // null for purely non-numeric entries
+  text?: string;        // notes and non-numeric insulin/food entries
+}
+
+// A span with no sensor readings (warm-up, dropout, or outside sensor wear)
+export interface GlucoseGap {
+  start: number; // epoch ms
+  end: number;   // epoch ms
+}
+
+// How gaps are filled when a day becomes a wavetable
+export type GapFillPolicy =
+  | 'hold'     // repeat the last value before the gap
+  | 'linear'   // straight line across the gap
+  | 'spline'   // smooth monotone curve across the gap
+  | 'silence'; // zero (centre line) inside the gap
+
+// Which glucose record types make up the curve
+export type ReadingMergeStrategy =
+  | 'historic'            // automatic historic records only
+  | 'historic-scans'      // historic records plus every manual scan
+  | 'scans-interpolated'; // historic records; scans only where historic data is missing
+
+// Kinds of wavetable source that aren't whole days
+export type TimeWindowKind =
+  | 'sleep'      // the configured sleep period of one night
+  | 'post-meal'  // a fixed span after a logged carb entry
+  | 'custom';    // a range picked by the user
+
+export interface TimeWindowInfo {
+  kind: TimeWindowKind;
+  label: string; // display name ("Night of Nov 24", "Meal Nov 24 12:30 · 45 g")
+}
+
+// International-consensus CGM metrics (thresholds follow the configured glucose targets)
+export interface GlucoseMetrics {
+  gmi: number;             // Glucose Management Indicator, % (estimated A1c from the mean)
+  sd: number;              // standard deviation, mg/dL
+  cv: number;              // coefficient of variation, % (SD / mean)
+  timeVeryLow: number;     // % of readings below the hypo threshold (<54 mg/dL)
+  timeBelowRange: number;  // % below the target range (<70 mg/dL), including very low
+  timeAboveRange: number;  // % above the target range (>180 mg/dL), including very high
+  timeVeryHigh: number;    // % above the hyper threshold (>250 mg/dL)
+  mage: number;            // mean amplitude of glycemic excursions, mg/dL
+  lbgi: number;            // low blood glucose index (hypo risk)
+  hbgi: number;            // high blood glucose index (hyper risk)
+  dataSufficiency: number; // % of the span with sensor data (outside gaps)
 }
 
 export interface DailyGlucoseData {
-  date: string; // YYYY-MM-DD format
+  date: string; // YYYY-MM-DD format (in the import's source timezone); a window's start date
+  startTime: number; // epoch ms of the day start (local midnight or the configured day start hour)
+  endTime: number;   // epoch ms of the next day start (23h/25h apart on DST days)
+  window?: TimeWindowInfo; // set when this is a time window rather than a day
   readings: GlucoseReading[];
+  events: GlucoseEvent[];
+  gaps: GlucoseGap[]; // sorted, clipped to startTime..endTime
   wavetable: Float32Array | null;
   stats: {
     min: number;
@@ -16,15 +96,87 @@ export interface DailyGlucoseData {
     avg: number;
     timeInRange: number; // percentage
   };
+  metrics: GlucoseMetrics;
+}
+
+// A device a reading came from (several per import when files or sensors are merged)
+export interface ReadingSource {
+  device: string; // reader/app/transmitter model, 'Unknown Device' when not exported
+  serial: string; // serial number or transmitter id, '' when not exported
+}
+
+// Glucose units an export can be in (values are always stored as mg/dL)
+export type GlucoseUnit = 'mg/dL' | 'mmol/L';
+
+// What an import read before the reading merge and day grouping; enough to regroup under other options
+export interface ParsedRecords {
+  readings: GlucoseReading[]; // sorted by time, scans and near-duplicates included
+  events: GlucoseEvent[];     // sorted by time
 }
 
 export interface ParsedLibreViewData {
   days: Map<string, DailyGlucoseData>;
-  unit: 'mg/dL' | 'mmol/L';
-  deviceName: string;
-  serialNumber: string;
+  windows: Map<string, DailyGlucoseData>; // sleep/post-meal/custom windows, keyed "<kind>:<start>"
+  unit: GlucoseUnit; // unit detected in the (first) file; the default display unit
+  timezone: string; // IANA zone used for day boundaries
+  relativeTimeline?: boolean; // anonymized project file: dates are Day 1..N (see parser/relative-timeline.ts)
+  sources: ReadingSource[];
+  records: ParsedRecords;
+  diagnostics: ImportDiagnostics;
+}
+
+// Order of the day/month/year fields in numeric dates
+export type DateOrder = 'YMD' | 'DMY' | 'MDY';
+
+export interface DateOrderDetection {
+  order: DateOrder;
+  ambiguous: boolean; // no timestamp pinned the order down, so the default (DMY) was assumed
+  conflicts: number;  // timestamps only valid in the other order (parsed that way individually)
+}
+
+// Why a row of an export was dropped
+export type SkipReason =
+  | 'column-count'      // field count differs from the header
+  | 'invalid-timestamp' // missing or unparseable timestamp
+  | 'invalid-value'     // glucose value is not a number
+  | 'out-of-range';     // sensor reported Lo/Hi instead of a value
+
+export interface SkippedRow {
+  line: number;   // 1-based line in the file (entry index for JSON)
+  reason: SkipReason;
+  detail: string; // the offending text
 }
 
+export interface DayCoverage {
+  date: string;
+  readings: number;
+  coverage: number;   // fraction of the day not inside a sensor gap (0-1)
+  gapMinutes: number;
+}
+
+// What an importer did with one file
+export interface FileDiagnostics {
+  fileName: string;          // set by parseGlucoseFile ('' when a parser is called directly)
+  format: string;            // importer display name
+  totalRows: number;         // data rows (or JSON entries) examined
+  skippedRows: SkippedRow[]; // capped; skippedByReason has the full counts
+  skippedByReason: Record<SkipReason, number>;
+  dateOrder: DateOrderDetection | null; // null when timestamps can't be ambiguous (epoch/ISO-only formats)
+}
+
+// What an import did with its files, for the import summary
+export interface ImportDiagnostics {
+  files: FileDiagnostics[];  // one per imported file, in load order
+  readingCount: number;
+  eventCount: number;
+  duplicateReadings: number; // near-duplicate timestamps collapsed into one reading (also across files)
+  droppedScans: number;      // scan readings left out by the merge strategy
+  coverage: DayCoverage[];   // sorted by date
+}
+
+// Progress reporting for long-running imports (fraction is 0-1)
+export type ImportProgressCallback = (fraction: number) => void;
+
 export interface SynthState {
   currentDay: string | null;
   wavetable: Float32Array | null;
@@ -47,18 +199,18 @@ export const DEFAULT_ENVELOPE: ADSREnvelope = {
   release: 0.3,
 };
 
-// Glucose target range (mg/dL)
+// Fixed physiological glucose range (mg/dL)
+// Target range and hypo/hyper thresholds are user settings (parser/glucose-targets.ts)
 export const GLUCOSE_RANGE = {
-  low: 70,
-  targetMin: 70,
-  targetMax: 180,
-  high: 250,
   absolute: {
     min: 40,
     max: 400,
   },
 };
 
+// mmol/L → mg/dL conversion factor (molar mass of glucose / 10)
+export const MGDL_PER_MMOL = 18.0182;
+
 // Piano key mappings
 export interface KeyMapping {
   key: string;
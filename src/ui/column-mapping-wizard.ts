@@ -0,0 +1,317 @@
+// Column Mapping Wizard
+// Modal shown when a CSV's layout isn't recognized: pick the header row, columns, unit and
+// date format from a preview of the file, optionally saving the choice as a named profile
+
+import type { DateOrder } from '../types';
+import { type ColumnMapping, type ColumnMappingProfile, type CSVPreview, guessColumnMapping } from '../parser/column-mapping';
+
+// Sample rows shown under the header
+const SAMPLE_ROWS = 6;
+
+const DATE_ORDER_OPTIONS: { value: DateOrder | 'auto'; label: string }[] = [
+  { value: 'auto', label: 'Detect' },
+  { value: 'DMY', label: 'DD-MM-YYYY' },
+  { value: 'MDY', label: 'MM-DD-YYYY' },
+  { value: 'YMD', label: 'YYYY-MM-DD' },
+];
+
+/**
+ * Escape text taken from the file before putting it in markup
+ */
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export class ColumnMappingWizard {
+  private container: HTMLElement;
+  private body: HTMLElement | null = null;
+  private fileName = '';
+  private preview: CSVPreview | null = null;
+  private profiles: ColumnMappingProfile[] = [];
+  private mapping: ColumnMapping | null = null;
+  private profileName = '';
+  private applyCallbacks: ((mapping: ColumnMapping, profileName: string | null) => void)[] = [];
+  private cancelCallbacks: (() => void)[] = [];
+
+  constructor(containerId: string) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container element #${containerId} not found`);
+    }
+    this.container = container;
+
+    this.handleKeyDown = this.handleKeyDown.bind(this);
+  }
+
+  /**
+   * Render the dialog shell (hidden until opened)
+   */
+  render(): void {
+    this.container.className = 'modal-overlay';
+    this.container.innerHTML = `
+      <div class="modal-dialog mapping-dialog" role="dialog" aria-modal="true" aria-labelledby="mapping-title">
+        <div class="modal-header">
+          <span class="modal-title" id="mapping-title">Map Columns</span>
+          <button class="modal-close" title="Cancel">×</button>
+        </div>
+        <div class="modal-body mapping-body"></div>
+        <div class="mapping-actions">
+          <button class="mapping-btn" data-action="cancel">Cancel</button>
+          <button class="mapping-btn primary" data-action="apply">Import</button>
+        </div>
+      </div>
+    `;
+
+    this.body = this.container.querySelector('.mapping-body');
+
+    this.container.querySelector('.modal-close')?.addEventListener('click', () => this.cancel());
+    this.container.querySelector('[data-action="cancel"]')?.addEventListener('click', () => this.cancel());
+    this.container.querySelector('[data-action="apply"]')?.addEventListener('click', () => this.apply());
+  }
+
+  /**
+   * Show the wizard for a file, starting from a guessed mapping
+   */
+  open(fileName: string, preview: CSVPreview, profiles: ColumnMappingProfile[]): void {
+    this.fileName = fileName;
+    this.preview = preview;
+    this.profiles = profiles;
+    this.mapping = guessColumnMapping(preview);
+    this.profileName = '';
+    this.renderBody();
+
+    this.container.classList.add('open');
+    document.addEventListener('keydown', this.handleKeyDown);
+  }
+
+  /**
+   * Hide the dialog
+   */
+  close(): void {
+    this.container.classList.remove('open');
+    document.removeEventListener('keydown', this.handleKeyDown);
+  }
+
+  /**
+   * Render the fields and preview table for the current mapping
+   */
+  private renderBody(): void {
+    if (!this.body || !this.preview || !this.mapping) return;
+
+    const preview = this.preview;
+    const mapping = this.mapping;
+    const headers = preview.lines[mapping.headerRow] ?? [];
+
+    const columnOptions = (selected: string | null, allowNone: boolean): string => `
+      ${allowNone ? `<option value="" ${selected === null ? 'selected' : ''}>None</option>` : ''}
+      ${headers.map(h => `<option value="${escapeHTML(h)}" ${h === selected ? 'selected' : ''}>${escapeHTML(h || '(blank)')}</option>`).join('')}
+    `;
+
+    const headerRowOptions = preview.lines
+      .map((fields, idx) => {
+        const label = `Line ${idx + 1}: ${fields.slice(0, 3).join(', ')}`;
+        return `<option value="${idx}" ${idx === mapping.headerRow ? 'selected' : ''}>${escapeHTML(label.slice(0, 60))}</option>`;
+      })
+      .join('');
+
+    const profileField = this.profiles.length > 0 ? `
+      <label class="settings-field">
+        <span class="settings-label">Saved profile</span>
+        <select class="settings-select" data-field="profile">
+          <option value="">—</option>
+          ${this.profiles.map((p, idx) => `<option value="${idx}">${escapeHTML(p.name)}</option>`).join('')}
+        </select>
+      </label>
+    ` : '';
+
+    this.body.innerHTML = `
+      <p class="mapping-intro">
+        The columns of <strong>${escapeHTML(this.fileName)}</strong> weren't recognized.
+        Pick where the timestamps and glucose values are.
+      </p>
+      <div class="mapping-fields">
+        ${profileField}
+        <label class="settings-field">
+          <span class="settings-label">Header row</span>
+          <select class="settings-select" data-field="headerRow">${headerRowOptions}</select>
+        </label>
+        <label class="settings-field">
+          <span class="settings-label">Timestamp</span>
+          <select class="settings-select" data-field="timestamp">${columnOptions(mapping.timestamp, false)}</select>
+        </label>
+        <label class="settings-field">
+          <span class="settings-label">Glucose</span>
+          <select class="settings-select" data-field="glucose">${columnOptions(mapping.glucose, false)}</select>
+        </label>
+        <label class="settings-field">
+          <span class="settings-label">Scans (optional)</span>
+          <select class="settings-select" data-field="scan">${columnOptions(mapping.scan, true)}</select>
+        </label>
+        <label class="settings-field">
+          <span class="settings-label">Unit</span>
+          <select class="settings-select" data-field="unit">
+            <option value="mg/dL" ${mapping.unit === 'mg/dL' ? 'selected' : ''}>mg/dL</option>
+            <option value="mmol/L" ${mapping.unit === 'mmol/L' ? 'selected' : ''}>mmol/L</option>
+          </select>
+        </label>
+        <label class="settings-field">
+          <span class="settings-label">Date format</span>
+          <select class="settings-select" data-field="dateOrder">
+            ${DATE_ORDER_OPTIONS.map(o => `<option value="${o.value}" ${o.value === mapping.dateOrder ? 'selected' : ''}>${o.label}</option>`).join('')}
+          </select>
+        </label>
+      </div>
+      ${this.renderPreviewTable(headers)}
+      <label class="settings-field">
+        <span class="settings-label">Save as profile</span>
+        <input type="text" class="settings-select mapping-name" data-field="profileName"
+          placeholder="e.g. LibreView (Deutsch)" value="${escapeHTML(this.profileName)}" />
+        <span class="settings-hint">Named profiles are applied automatically to files with the same columns.</span>
+      </label>
+    `;
+
+    this.bindFields();
+  }
+
+  /**
+   * Header plus sample rows, with the mapped columns highlighted
+   */
+  private renderPreviewTable(headers: string[]): string {
+    if (!this.preview || !this.mapping) return '';
+    const mapping = this.mapping;
+
+    const roleOf = (header: string): string => {
+      if (header === mapping.timestamp) return 'mapped-timestamp';
+      if (header === mapping.glucose) return 'mapped-glucose';
+      if (header === mapping.scan) return 'mapped-scan';
+      return '';
+    };
+    const roles = headers.map(roleOf);
+
+    const samples = this.preview.lines
+      .slice(mapping.headerRow + 1, mapping.headerRow + 1 + SAMPLE_ROWS)
+      .map(fields => `<tr>${headers.map((_, idx) => `<td class="${roles[idx]}">${escapeHTML(fields[idx] ?? '')}</td>`).join('')}</tr>`)
+      .join('');
+
+    return `
+      <div class="summary-table-wrap mapping-preview">
+        <table class="summary-table">
+          <thead><tr>${headers.map((h, idx) => `<th class="${roles[idx]}">${escapeHTML(h)}</th>`).join('')}</tr></thead>
+          <tbody>${samples}</tbody>
+        </table>
+      </div>
+    `;
+  }
+
+  /**
+   * Wire up the field selects (each change re-renders the preview)
+   */
+  private bindFields(): void {
+    if (!this.body) return;
+
+    this.body.querySelectorAll<HTMLSelectElement | HTMLInputElement>('[data-field]').forEach(field => {
+      const event = field instanceof HTMLInputElement ? 'input' : 'change';
+      field.addEventListener(event, () => this.handleFieldChange(field.dataset.field ?? '', field.value));
+    });
+  }
+
+  /**
+   * Apply a field change to the mapping
+   */
+  private handleFieldChange(field: string, value: string): void {
+    if (!this.preview || !this.mapping) return;
+
+    switch (field) {
+      case 'profile': {
+        const profile = this.profiles[parseInt(value)];
+        if (!profile) return;
+        this.mapping = { ...profile.mapping };
+        this.profileName = profile.name;
+        break;
+      }
+      case 'headerRow':
+        // A different header means different column names; guess again from there
+        this.mapping = guessColumnMapping(this.preview, parseInt(value));
+        break;
+      case 'timestamp':
+      case 'glucose':
+        this.mapping = { ...this.mapping, [field]: value };
+        break;
+      case 'scan':
+        this.mapping = { ...this.mapping, scan: value || null };
+        break;
+      case 'unit':
+        this.mapping = { ...this.mapping, unit: value as ColumnMapping['unit'] };
+        break;
+      case 'dateOrder':
+        this.mapping = { ...this.mapping, dateOrder: value as ColumnMapping['dateOrder'] };
+        break;
+      case 'profileName':
+        // Typing doesn't change the preview; keep focus in the field
+        this.profileName = value;
+        return;
+    }
+
+    this.renderBody();
+  }
+
+  /**
+   * Confirm the mapping
+   */
+  private apply(): void {
+    if (!this.mapping) return;
+    if (!this.mapping.timestamp || !this.mapping.glucose) return;
+
+    const mapping = { ...this.mapping };
+    const name = this.profileName.trim() || null;
+    this.close();
+    this.applyCallbacks.forEach(cb => cb(mapping, name));
+  }
+
+  /**
+   * Dismiss without importing
+   */
+  private cancel(): void {
+    this.close();
+    this.cancelCallbacks.forEach(cb => cb());
+  }
+
+  /**
+   * Cancel on Escape while open
+   */
+  private handleKeyDown(e: KeyboardEvent): void {
+    if (e.key === 'Escape') this.cancel();
+  }
+
+  /**
+   * Check if the dialog is visible
+   */
+  isOpen(): boolean {
+    return this.container.classList.contains('open');
+  }
+
+  /**
+   * Register callback for a confirmed mapping (profileName is null when not saving)
+   */
+  onApply(callback: (mapping: ColumnMapping, profileName: string | null) => void): void {
+    this.applyCallbacks.push(callback);
+  }
+
+  /**
+   * Register callback for a dismissed wizard
+   */
+  onCancel(callback: () => void): void {
+    this.cancelCallbacks.push(callback);
+  }
+}
+
+// Factory function
+export function createColumnMappingWizard(containerId: string): ColumnMappingWizard {
+  const wizard = new ColumnMappingWizard(containerId);
+  wizard.render();
+  return wizard;
+}
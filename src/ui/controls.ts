@@ -109,14 +109,39 @@ export class SynthControls {
     }, true);
     volumeSection.appendChild(volumeKnob);
 
+    // Phase toggle: play the drawn waveform, or only its harmonic levels (the original sound)
+    const phaseToggle = document.createElement('button');
+    phaseToggle.className = 'phase-toggle';
+    phaseToggle.addEventListener('click', () => {
+      this.synth.setPartialMode(this.synth.getPartialMode() === 'phase' ? 'magnitude' : 'phase');
+      this.updatePhaseToggle();
+    });
+    volumeSection.appendChild(phaseToggle);
+
     faceplate.appendChild(volumeSection);
     this.container.appendChild(faceplate);
+    this.updatePhaseToggle();
 
     // Apply initial values to synth
     this.updateSynth();
     this.synth.setVolume(this.volume);
   }
 
+  /**
+   * Show the synth's partial mode on the phase toggle
+   */
+  private updatePhaseToggle(): void {
+    const toggle = this.container.querySelector<HTMLButtonElement>('.phase-toggle');
+    if (!toggle) return;
+
+    const phase = this.synth.getPartialMode() === 'phase';
+    toggle.textContent = phase ? 'PHASE' : 'MAG';
+    toggle.classList.toggle('active', phase);
+    toggle.title = phase
+      ? 'Phase-accurate: oscillators play the waveform as drawn (click to compare with magnitude-only partials)'
+      : 'Magnitude-only: harmonic levels with zero phase (click for the phase-accurate waveform)';
+  }
+
   /**
    * Create a rotary knob control
    */
@@ -480,6 +505,7 @@ export class SynthControls {
     this.updateKnobVisual('decay', this.envelope.decay, 0.001, 2);
     this.updateKnobVisual('sustain', this.envelope.sustain, 0, 1);
     this.updateKnobVisual('release', this.envelope.release, 0.001, 4);
+    this.updatePhaseToggle();
   }
 }
 
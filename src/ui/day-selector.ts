@@ -1,9 +1,13 @@
 // Day Selector Dropdown
-// UI component for selecting glucose data days with waveform preview
+// UI component for selecting glucose data days (or time windows) with waveform preview
 
 import type { DailyGlucoseData, ParsedLibreViewData } from '../types';
 import { formatDateForDisplay } from '../parser/libreview';
-import { getWaveformForDisplay } from '../synthesis/wavetable';
+import { TIME_WINDOW_HEADINGS, getWavetableSource, getWindowKeys } from '../parser/time-windows';
+import { getGlucoseTargets, getTimeInRangeClass } from '../parser/glucose-targets';
+import { MIN_DATA_SUFFICIENCY, formatMetricsDetail, formatMetricsSummary } from '../parser/glucose-metrics';
+import { formatGlucose } from '../parser/display-unit';
+import { getWaveformForDisplay, getGapSpansForDisplay } from '../synthesis/wavetable';
 
 type DaySelectedCallback = (date: string, dayData: DailyGlucoseData, oscIndex: number | null) => void;
 type PreviewCallback = (dayData: DailyGlucoseData | null) => void;
@@ -108,7 +112,7 @@ export class DaySelector {
     
     // Reset preview to selected day
     if (this.previewingDate && this.selectedDate && this.data) {
-      const selectedData = this.data.days.get(this.selectedDate);
+      const selectedData = getWavetableSource(this.data, this.selectedDate);
       if (selectedData) {
         this.onPreviewCallback?.(selectedData);
       }
@@ -164,6 +168,21 @@ export class DaySelector {
       list.appendChild(item);
     }
 
+    // Sleep, post-meal and custom windows under their own headings
+    for (const { kind, heading } of TIME_WINDOW_HEADINGS) {
+      const keys = getWindowKeys(this.data, kind);
+      if (keys.length === 0) continue;
+
+      const headingEl = document.createElement('div');
+      headingEl.className = 'day-list-heading';
+      headingEl.textContent = heading;
+      list.appendChild(headingEl);
+
+      for (const key of keys) {
+        list.appendChild(this.createDayItem(key, this.data.windows.get(key)!));
+      }
+    }
+
     panel.appendChild(list);
     this.container.appendChild(panel);
 
@@ -206,7 +225,7 @@ export class DaySelector {
   private updateHeader(): void {
     if (!this.selectedDate || !this.data) return;
 
-    const dayData = this.data.days.get(this.selectedDate);
+    const dayData = getWavetableSource(this.data, this.selectedDate);
     if (!dayData) return;
 
     const dateEl = this.container.querySelector('.header-date');
@@ -214,18 +233,19 @@ export class DaySelector {
     const waveformEl = this.container.querySelector('.header-waveform');
 
     if (dateEl) {
-      dateEl.textContent = formatDateForDisplay(this.selectedDate);
+      dateEl.textContent = dayData.window?.label ?? formatDateForDisplay(this.selectedDate);
     }
 
     if (statsEl) {
       const stats = dayData.stats;
-      const tirClass = stats.timeInRange >= 70 ? 'good' : stats.timeInRange >= 50 ? 'warning' : 'bad';
+      const tirClass = getTimeInRangeClass(stats.timeInRange);
       statsEl.innerHTML = `
-        <span class="stat">↓${Math.round(stats.min)}</span>
-        <span class="stat">μ${Math.round(stats.avg)}</span>
-        <span class="stat">↑${Math.round(stats.max)}</span>
+        <span class="stat">↓${formatGlucose(stats.min)}</span>
+        <span class="stat">μ${formatGlucose(stats.avg)}</span>
+        <span class="stat">↑${formatGlucose(stats.max)}</span>
         <span class="stat tir ${tirClass}">${Math.round(stats.timeInRange)}%</span>
       `;
+      statsEl.setAttribute('title', formatMetricsDetail(dayData.metrics, getGlucoseTargets()));
     }
 
     if (waveformEl) {
@@ -246,17 +266,22 @@ export class DaySelector {
 
     // Stats
     const stats = dayData.stats;
-    const tirClass = stats.timeInRange >= 70 ? 'good' : stats.timeInRange >= 50 ? 'warning' : 'bad';
+    const tirClass = getTimeInRangeClass(stats.timeInRange);
+    const lowData = dayData.metrics.dataSufficiency < MIN_DATA_SUFFICIENCY;
 
+    item.title = formatMetricsDetail(dayData.metrics, getGlucoseTargets());
     item.innerHTML = `
       <div class="day-info">
-        <div class="day-date">${formatDateForDisplay(date)}</div>
+        <div class="day-date">${dayData.window?.label ?? formatDateForDisplay(date)}</div>
         <div class="day-stats">
-          <span class="stat">↓${Math.round(stats.min)}</span>
-          <span class="stat">μ${Math.round(stats.avg)}</span>
-          <span class="stat">↑${Math.round(stats.max)}</span>
+          <span class="stat">↓${formatGlucose(stats.min)}</span>
+          <span class="stat">μ${formatGlucose(stats.avg)}</span>
+          <span class="stat">↑${formatGlucose(stats.max)}</span>
           <span class="stat tir ${tirClass}">${Math.round(stats.timeInRange)}%</span>
         </div>
+        <div class="day-metrics">
+          ${formatMetricsSummary(dayData.metrics)}${lowData ? ` · <span class="low-data">${Math.round(dayData.metrics.dataSufficiency)}% data</span>` : ''}
+        </div>
       </div>
       <div class="day-waveform">${waveformPreview}</div>
     `;
@@ -286,7 +311,7 @@ export class DaySelector {
   private previewDate(date: string): void {
     if (!this.data) return;
 
-    const dayData = this.data.days.get(date);
+    const dayData = getWavetableSource(this.data, date);
     if (!dayData) return;
 
     this.previewingDate = date;
@@ -323,16 +348,21 @@ export class DaySelector {
       path += `${i === 0 ? 'M' : 'L'} ${x.toFixed(1)} ${y.toFixed(1)} `;
     }
 
-    return `<svg class="mini-wave" viewBox="0 0 ${width} ${height}"><path d="${path}" fill="none" stroke="currentColor" stroke-width="1.5"/></svg>`;
+    // Shaded bands where the sensor had no readings
+    const gapRects = getGapSpansForDisplay(dayData)
+      .map(gap => `<rect class="gap-mark" x="${(gap.from * width).toFixed(1)}" y="0" width="${((gap.to - gap.from) * width).toFixed(1)}" height="${height}"/>`)
+      .join('');
+
+    return `<svg class="mini-wave" viewBox="0 0 ${width} ${height}">${gapRects}<path d="${path}" fill="none" stroke="currentColor" stroke-width="1.5"/></svg>`;
   }
 
   /**
-   * Select a date
+   * Select a date (or a time window by key)
    */
   selectDate(date: string): void {
     if (!this.data) return;
 
-    const dayData = this.data.days.get(date);
+    const dayData = getWavetableSource(this.data, date);
     if (!dayData) return;
 
     // Update selection state
@@ -0,0 +1,440 @@
+// Import Summary Panel
+// Modal report of what the last import kept, skipped and how well each day is covered
+
+import type { DateOrder, FileDiagnostics, ImportDiagnostics, ParsedLibreViewData, SkipReason } from '../types';
+import { countSkippedRows } from '../parser/diagnostics';
+import { formatDateForDisplay } from '../parser/libreview';
+import { getAcceptedExtensions } from '../parser/importers';
+import {
+  DEFAULT_PROJECT_EXPORT_OPTIONS,
+  PROJECT_FILE_EXTENSION,
+  type ProjectExportOptions,
+} from '../parser/project-file';
+
+// Days below this coverage are flagged (consensus guidance asks for 70% CGM wear)
+const LOW_COVERAGE = 0.7;
+
+// Skipped rows listed before collapsing into a count
+const MAX_LISTED_SKIPS = 100;
+
+const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  'column-count': 'Wrong column count',
+  'invalid-timestamp': 'Unreadable timestamp',
+  'invalid-value': 'Non-numeric glucose',
+  'out-of-range': 'Sensor Lo/Hi',
+};
+
+const EXPORT_OPTION_LABELS: Record<keyof ProjectExportOptions, string> = {
+  stripSerials: 'Strip serial numbers',
+  relativeDates: 'Relative dates (Day 1..N)',
+  includeWavetables: 'Include wavetables',
+};
+
+const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  YMD: 'YYYY-MM-DD',
+  DMY: 'DD-MM-YYYY (day first)',
+  MDY: 'MM-DD-YYYY (month first)',
+};
+
+/**
+ * Escape text taken from the imported file before putting it in markup
+ */
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Check whether an import produced anything the user should look at
+ */
+export function hasImportWarnings(diagnostics: ImportDiagnostics): boolean {
+  return countSkippedRows(diagnostics) > 0 ||
+    diagnostics.files.some(file =>
+      file.dateOrder?.ambiguous === true || (file.dateOrder?.conflicts ?? 0) > 0
+    );
+}
+
+export class ImportSummaryPanel {
+  private container: HTMLElement;
+  private body: HTMLElement | null = null;
+  private addFilesCallbacks: ((files: File[]) => void)[] = [];
+  private exportCallbacks: ((options: ProjectExportOptions) => void)[] = [];
+  private exportOptions: ProjectExportOptions = { ...DEFAULT_PROJECT_EXPORT_OPTIONS };
+
+  constructor(containerId: string) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container element #${containerId} not found`);
+    }
+    this.container = container;
+
+    this.handleKeyDown = this.handleKeyDown.bind(this);
+  }
+
+  /**
+   * Render the dialog shell (hidden until opened)
+   */
+  render(): void {
+    this.container.className = 'modal-overlay';
+    this.container.innerHTML = `
+      <div class="modal-dialog import-summary-dialog" role="dialog" aria-modal="true" aria-labelledby="import-summary-title">
+        <div class="modal-header">
+          <span class="modal-title" id="import-summary-title">Import Summary</span>
+          <button class="modal-close" title="Close">×</button>
+        </div>
+        <div class="modal-body import-summary-body">
+          <p class="summary-empty">No file imported yet.</p>
+        </div>
+        <div class="summary-actions">
+          <span class="summary-hint">Overlapping exports are merged; repeated readings count once.</span>
+          <button class="summary-add-btn" title="Merge more exports into the current data">Add files…</button>
+          <input type="file" class="summary-add-input" multiple hidden />
+        </div>
+        <div class="summary-actions summary-export">
+          <div class="summary-export-options">
+            ${(Object.keys(EXPORT_OPTION_LABELS) as (keyof ProjectExportOptions)[]).map(key => `
+              <label class="summary-export-option">
+                <input type="checkbox" data-export="${key}" ${this.exportOptions[key] ? 'checked' : ''} />
+                ${EXPORT_OPTION_LABELS[key]}
+              </label>
+            `).join('')}
+          </div>
+          <button class="summary-add-btn summary-export-btn" title="Save the parsed data as a project file" disabled>Export ${PROJECT_FILE_EXTENSION}</button>
+        </div>
+      </div>
+    `;
+
+    this.body = this.container.querySelector('.import-summary-body');
+
+    this.container.querySelector('.modal-close')?.addEventListener('click', () => this.close());
+
+    const addInput = this.container.querySelector('.summary-add-input') as HTMLInputElement | null;
+    if (addInput) {
+      addInput.accept = getAcceptedExtensions().join(',');
+      this.container.querySelector('.summary-add-btn')?.addEventListener('click', () => addInput.click());
+      addInput.addEventListener('change', () => {
+        const files = Array.from(addInput.files ?? []);
+        addInput.value = '';
+        if (files.length > 0) {
+          this.addFilesCallbacks.forEach(cb => cb(files));
+        }
+      });
+    }
+
+    this.container.querySelectorAll<HTMLInputElement>('[data-export]').forEach(input => {
+      input.addEventListener('change', () => {
+        this.exportOptions = { ...this.exportOptions, [input.dataset.export as keyof ProjectExportOptions]: input.checked };
+      });
+    });
+    this.container.querySelector('.summary-export-btn')?.addEventListener('click', () => {
+      const options = { ...this.exportOptions };
+      this.exportCallbacks.forEach(cb => cb(options));
+    });
+
+    this.container.addEventListener('click', (e) => {
+      if (e.target === this.container) this.close();
+    });
+  }
+
+  /**
+   * Fill the report from an import result
+   */
+  setData(data: ParsedLibreViewData): void {
+    if (!this.body) return;
+
+    const exportButton = this.container.querySelector('.summary-export-btn') as HTMLButtonElement | null;
+    if (exportButton) exportButton.disabled = data.days.size === 0;
+
+    const diagnostics = data.diagnostics;
+    this.body.innerHTML = `
+      ${this.renderOverview(data)}
+      ${this.renderFiles(diagnostics)}
+      ${this.renderSources(data)}
+      ${this.renderDateOrder(diagnostics)}
+      ${this.renderSkippedRows(diagnostics)}
+      ${this.renderCoverage(diagnostics)}
+    `;
+  }
+
+  /**
+   * Format and counts across all files
+   */
+  private renderOverview(data: ParsedLibreViewData): string {
+    const d = data.diagnostics;
+    const skipped = countSkippedRows(d);
+    const formats = Array.from(new Set(d.files.map(file => file.format)));
+    const totalRows = d.files.reduce((sum, file) => sum + file.totalRows, 0);
+    const rows: [string, string][] = [
+      d.files.length === 1
+        ? ['File', escapeHTML(d.files[0].fileName)]
+        : ['Files', d.files.length.toLocaleString()],
+      ['Format', escapeHTML(formats.join(', '))],
+      ['Timezone', escapeHTML(data.timezone)],
+      ...(data.relativeTimeline ? [['Timeline', 'Relative (Day 1..N)'] as [string, string]] : []),
+      ['Unit', data.unit],
+      ['Rows examined', totalRows.toLocaleString()],
+      ['Readings', d.readingCount.toLocaleString()],
+      ['Duplicates merged', d.duplicateReadings.toLocaleString()],
+      ['Scans left out', d.droppedScans.toLocaleString()],
+      ['Events', d.eventCount.toLocaleString()],
+      ['Days', data.days.size.toLocaleString()],
+      ['Skipped rows', skipped.toLocaleString()],
+    ];
+
+    return `
+      <section class="summary-section">
+        <dl class="summary-grid">
+          ${rows.map(([label, value]) => `<dt>${label}</dt><dd>${value}</dd>`).join('')}
+        </dl>
+      </section>
+    `;
+  }
+
+  /**
+   * Per-file breakdown (only when several files were merged)
+   */
+  private renderFiles(diagnostics: ImportDiagnostics): string {
+    if (diagnostics.files.length < 2) return '';
+
+    const rows = diagnostics.files
+      .map(file => `
+        <tr>
+          <td class="summary-detail">${escapeHTML(file.fileName)}</td>
+          <td>${escapeHTML(file.format)}</td>
+          <td class="summary-number">${file.totalRows.toLocaleString()}</td>
+          <td class="summary-number">${countSkippedRows(file).toLocaleString()}</td>
+        </tr>
+      `)
+      .join('');
+
+    return `
+      <section class="summary-section">
+        <h3 class="summary-section-title">Files</h3>
+        <div class="summary-table-wrap">
+          <table class="summary-table">
+            <thead><tr><th>File</th><th>Format</th><th>Rows</th><th>Skipped</th></tr></thead>
+            <tbody>${rows}</tbody>
+          </table>
+        </div>
+      </section>
+    `;
+  }
+
+  /**
+   * Devices and sensors the readings came from
+   */
+  private renderSources(data: ParsedLibreViewData): string {
+    if (data.sources.length === 0) return '';
+
+    const counts = new Array<number>(data.sources.length).fill(0);
+    for (const [, day] of data.days) {
+      for (const reading of day.readings) {
+        if (reading.source !== undefined) counts[reading.source]++;
+      }
+    }
+
+    const rows = data.sources
+      .map((source, i) => `
+        <tr>
+          <td>${escapeHTML(source.device)}</td>
+          <td class="summary-detail">${source.serial ? escapeHTML(source.serial) : '—'}</td>
+          <td class="summary-number">${counts[i].toLocaleString()}</td>
+        </tr>
+      `)
+      .join('');
+
+    return `
+      <section class="summary-section">
+        <h3 class="summary-section-title">Devices</h3>
+        <div class="summary-table-wrap">
+          <table class="summary-table">
+            <thead><tr><th>Device</th><th>Serial</th><th>Readings</th></tr></thead>
+            <tbody>${rows}</tbody>
+          </table>
+        </div>
+      </section>
+    `;
+  }
+
+  /**
+   * Which day/month order timestamps were read with, per file
+   */
+  private renderDateOrder(diagnostics: ImportDiagnostics): string {
+    const files = diagnostics.files.filter(file => file.dateOrder);
+    if (files.length === 0) return '';
+
+    const showNames = diagnostics.files.length > 1;
+    return `
+      <section class="summary-section">
+        <h3 class="summary-section-title">Date order</h3>
+        ${files.map(file => this.renderFileDateOrder(file, showNames)).join('')}
+      </section>
+    `;
+  }
+
+  /**
+   * One file's date order line
+   */
+  private renderFileDateOrder(file: FileDiagnostics, showName: boolean): string {
+    const detection = file.dateOrder;
+    if (!detection) return '';
+
+    let note = 'Determined from the data.';
+    let warning = false;
+    if (detection.ambiguous) {
+      note = 'Ambiguous: no date had a day above 12, so day-first was assumed. Check the dates below.';
+      warning = true;
+    } else if (detection.conflicts > 0) {
+      note = `${detection.conflicts.toLocaleString()} timestamps only made sense in the other order and were read that way.`;
+      warning = true;
+    }
+
+    const name = showName ? `${escapeHTML(file.fileName)}: ` : '';
+    return `
+      <p class="summary-date-order ${warning ? 'warning' : ''}">
+        ${name}<strong>${DATE_ORDER_LABELS[detection.order]}</strong> — ${note}
+      </p>
+    `;
+  }
+
+  /**
+   * Skipped rows grouped by reason, then listed by line
+   */
+  private renderSkippedRows(diagnostics: ImportDiagnostics): string {
+    const total = countSkippedRows(diagnostics);
+    if (total === 0) {
+      return `
+        <section class="summary-section">
+          <h3 class="summary-section-title">Skipped rows</h3>
+          <p class="summary-ok">None</p>
+        </section>
+      `;
+    }
+
+    const byReason = (Object.keys(SKIP_REASON_LABELS) as SkipReason[])
+      .map(reason => [reason, diagnostics.files.reduce((sum, file) => sum + file.skippedByReason[reason], 0)] as const)
+      .filter(([, count]) => count > 0);
+    const reasons = byReason
+      .map(([reason, count]) => `<li>${SKIP_REASON_LABELS[reason]}: ${count.toLocaleString()}</li>`)
+      .join('');
+
+    const showNames = diagnostics.files.length > 1;
+    const listed = diagnostics.files
+      .flatMap(file => file.skippedRows.map(row => ({ ...row, fileName: file.fileName })))
+      .slice(0, MAX_LISTED_SKIPS);
+    const rows = listed
+      .map(row => `
+        <tr>
+          ${showNames ? `<td class="summary-detail">${escapeHTML(row.fileName)}</td>` : ''}
+          <td class="summary-line">${row.line}</td>
+          <td>${SKIP_REASON_LABELS[row.reason]}</td>
+          <td class="summary-detail">${escapeHTML(row.detail)}</td>
+        </tr>
+      `)
+      .join('');
+    const more = total - listed.length;
+
+    return `
+      <section class="summary-section">
+        <h3 class="summary-section-title">Skipped rows</h3>
+        <ul class="summary-reasons">${reasons}</ul>
+        <div class="summary-table-wrap">
+          <table class="summary-table">
+            <thead><tr>${showNames ? '<th>File</th>' : ''}<th>Line</th><th>Reason</th><th>Content</th></tr></thead>
+            <tbody>${rows}</tbody>
+          </table>
+        </div>
+        ${more > 0 ? `<p class="summary-more">…and ${more.toLocaleString()} more</p>` : ''}
+      </section>
+    `;
+  }
+
+  /**
+   * Per-day coverage bars
+   */
+  private renderCoverage(diagnostics: ImportDiagnostics): string {
+    if (diagnostics.coverage.length === 0) return '';
+
+    const rows = diagnostics.coverage
+      .map(day => {
+        const percent = Math.round(day.coverage * 100);
+        const low = day.coverage < LOW_COVERAGE;
+        const gapHours = day.gapMinutes >= 60
+          ? `${Math.floor(day.gapMinutes / 60)}h ${day.gapMinutes % 60}m`
+          : `${day.gapMinutes}m`;
+        return `
+          <tr class="${low ? 'low-coverage' : ''}">
+            <td>${formatDateForDisplay(day.date)}</td>
+            <td class="summary-number">${day.readings}</td>
+            <td>
+              <div class="summary-coverage">
+                <span class="coverage-bar"><span class="coverage-fill" style="width: ${percent}%"></span></span>
+                <span>${percent}%</span>
+              </div>
+            </td>
+            <td class="summary-number">${day.gapMinutes > 0 ? gapHours : '—'}</td>
+          </tr>
+        `;
+      })
+      .join('');
+
+    return `
+      <section class="summary-section">
+        <h3 class="summary-section-title">Coverage per day</h3>
+        <div class="summary-table-wrap">
+          <table class="summary-table">
+            <thead><tr><th>Day</th><th>Readings</th><th>Coverage</th><th>Gaps</th></tr></thead>
+            <tbody>${rows}</tbody>
+          </table>
+        </div>
+      </section>
+    `;
+  }
+
+  /**
+   * Close on Escape while open
+   */
+  private handleKeyDown(e: KeyboardEvent): void {
+    if (e.key === 'Escape') this.close();
+  }
+
+  /**
+   * Register callback for files picked with "Add files…"
+   */
+  onAddFiles(callback: (files: File[]) => void): void {
+    this.addFilesCallbacks.push(callback);
+  }
+
+  /**
+   * Register callback for "Export .glukojson"
+   */
+  onExport(callback: (options: ProjectExportOptions) => void): void {
+    this.exportCallbacks.push(callback);
+  }
+
+  /**
+   * Show the dialog
+   */
+  open(): void {
+    this.container.classList.add('open');
+    document.addEventListener('keydown', this.handleKeyDown);
+  }
+
+  /**
+   * Hide the dialog
+   */
+  close(): void {
+    this.container.classList.remove('open');
+    document.removeEventListener('keydown', this.handleKeyDown);
+  }
+}
+
+// Factory function
+export function createImportSummaryPanel(containerId: string): ImportSummaryPanel {
+  const panel = new ImportSummaryPanel(containerId);
+  panel.render();
+  return panel;
+}
@@ -0,0 +1,233 @@
+// Library Panel
+// Modal list of datasets stored in the browser: load one back or delete it.
+// Also generates synthetic demo data.
+
+import { formatRelativeDay } from '../parser/relative-timeline';
+import {
+  DEFAULT_SYNTHETIC_OPTIONS,
+  SYNTHETIC_PROFILES,
+  type SyntheticDataOptions,
+  type SyntheticProfileId,
+} from '../parser/synthetic-data';
+import type { StoredDatasetSummary } from '../storage/dataset-store';
+
+/**
+ * Escape text taken from imported files before putting it in markup
+ */
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * "Nov 24, 2025", or "Day 3" for anonymized datasets
+ */
+function formatLibraryDate(dateKey: string, relative: boolean): string {
+  if (relative) return formatRelativeDay(dateKey);
+  return new Date(dateKey + 'T00:00:00').toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+export class LibraryPanel {
+  private container: HTMLElement;
+  private list: HTMLElement | null = null;
+  private datasets: StoredDatasetSummary[] = [];
+  private activeId: number | null = null;
+  private loadCallbacks: ((id: number) => void)[] = [];
+  private deleteCallbacks: ((id: number) => void)[] = [];
+  private generateCallbacks: ((options: SyntheticDataOptions) => void)[] = [];
+  private syntheticOptions: SyntheticDataOptions = { ...DEFAULT_SYNTHETIC_OPTIONS };
+
+  constructor(containerId: string) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container element #${containerId} not found`);
+    }
+    this.container = container;
+
+    this.handleKeyDown = this.handleKeyDown.bind(this);
+  }
+
+  /**
+   * Render the dialog shell (hidden until opened)
+   */
+  render(): void {
+    this.container.className = 'modal-overlay';
+    this.container.innerHTML = `
+      <div class="modal-dialog library-dialog" role="dialog" aria-modal="true" aria-labelledby="library-title">
+        <div class="modal-header">
+          <span class="modal-title" id="library-title">Library</span>
+          <button class="modal-close" title="Close">×</button>
+        </div>
+        <div class="modal-body library-body"></div>
+        <div class="summary-actions">
+          <span class="summary-hint">Imported datasets are kept in this browser and the last one loaded is restored on startup.</span>
+        </div>
+        <div class="summary-actions library-generate">
+          <label class="settings-field">
+            <span class="settings-label">Profile</span>
+            <select class="settings-select" data-synthetic="profile">
+              ${SYNTHETIC_PROFILES.map(profile => `
+                <option value="${profile.id}" ${profile.id === this.syntheticOptions.profile ? 'selected' : ''}>${profile.label}</option>
+              `).join('')}
+            </select>
+          </label>
+          <label class="settings-field">
+            <span class="settings-label">Days</span>
+            <input type="number" class="settings-select" data-synthetic="days" min="1" max="90" step="1" value="${this.syntheticOptions.days}" />
+          </label>
+          <label class="settings-field">
+            <span class="settings-label">Seed</span>
+            <input type="number" class="settings-select" data-synthetic="seed" min="0" step="1" value="${this.syntheticOptions.seed}" />
+          </label>
+          <button class="summary-add-btn library-generate-btn" title="Load synthetic CGM data (the same seed gives the same curves)">Generate</button>
+        </div>
+      </div>
+    `;
+
+    this.list = this.container.querySelector('.library-body');
+
+    this.container.querySelector('.modal-close')?.addEventListener('click', () => this.close());
+
+    this.container.querySelector('[data-synthetic="profile"]')?.addEventListener('change', (e) => {
+      this.syntheticOptions.profile = (e.target as HTMLSelectElement).value as SyntheticProfileId;
+    });
+    this.container.querySelectorAll<HTMLInputElement>('input[data-synthetic]').forEach(input => {
+      input.addEventListener('change', () => {
+        const key = input.dataset.synthetic as 'days' | 'seed';
+        const value = parseInt(input.value);
+        if (isNaN(value)) {
+          input.value = String(this.syntheticOptions[key]);
+          return;
+        }
+        this.syntheticOptions[key] = key === 'days' ? Math.min(90, Math.max(1, value)) : Math.max(0, value);
+        input.value = String(this.syntheticOptions[key]);
+      });
+    });
+    this.container.querySelector('.library-generate-btn')?.addEventListener('click', () => {
+      const options = { ...this.syntheticOptions };
+      this.generateCallbacks.forEach(cb => cb(options));
+    });
+
+    this.container.addEventListener('click', (e) => {
+      if (e.target === this.container) this.close();
+    });
+
+    this.renderList();
+  }
+
+  /**
+   * Show the stored datasets; the active one is marked
+   */
+  setDatasets(datasets: StoredDatasetSummary[], activeId: number | null): void {
+    this.datasets = [...datasets];
+    this.activeId = activeId;
+    this.renderList();
+  }
+
+  /**
+   * Render the dataset list
+   */
+  private renderList(): void {
+    if (!this.list) return;
+
+    if (this.datasets.length === 0) {
+      this.list.innerHTML = '<p class="summary-empty">No stored datasets yet. Imported files are added here.</p>';
+      return;
+    }
+
+    this.list.innerHTML = `
+      <ul class="library-list">
+        ${this.datasets.map(dataset => {
+          const active = dataset.id === this.activeId;
+          const span = dataset.firstDate === dataset.lastDate
+            ? formatLibraryDate(dataset.firstDate, dataset.relativeTimeline)
+            : `${formatLibraryDate(dataset.firstDate, dataset.relativeTimeline)} – ${formatLibraryDate(dataset.lastDate, dataset.relativeTimeline)}`;
+          const devices = dataset.devices.length > 0 ? dataset.devices.join(', ') : 'Unknown device';
+          return `
+            <li class="library-item ${active ? 'active' : ''}">
+              <span class="library-name" title="${escapeHTML(dataset.name)}">${escapeHTML(dataset.name)}</span>
+              <span class="library-meta">${escapeHTML(devices)}</span>
+              <span class="library-meta">${span} · ${dataset.dayCount} days · ${dataset.readingCount.toLocaleString()} readings</span>
+              <div class="library-item-actions">
+                <button class="summary-add-btn library-load" data-id="${dataset.id}" ${active ? 'disabled' : ''}
+                  title="${active ? 'Currently loaded' : 'Load this dataset'}">${active ? 'Loaded' : 'Load'}</button>
+                <button class="library-remove" data-id="${dataset.id}" title="Delete from library">×</button>
+              </div>
+            </li>
+          `;
+        }).join('')}
+      </ul>
+    `;
+
+    this.list.querySelectorAll<HTMLButtonElement>('.library-load').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const id = Number(btn.dataset.id);
+        this.loadCallbacks.forEach(cb => cb(id));
+      });
+    });
+    this.list.querySelectorAll<HTMLButtonElement>('.library-remove').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const id = Number(btn.dataset.id);
+        this.deleteCallbacks.forEach(cb => cb(id));
+      });
+    });
+  }
+
+  /**
+   * Close on Escape
+   */
+  private handleKeyDown(e: KeyboardEvent): void {
+    if (e.key === 'Escape') this.close();
+  }
+
+  /**
+   * Register callback for loading a stored dataset
+   */
+  onLoad(callback: (id: number) => void): void {
+    this.loadCallbacks.push(callback);
+  }
+
+  /**
+   * Register callback for deleting a stored dataset
+   */
+  onDelete(callback: (id: number) => void): void {
+    this.deleteCallbacks.push(callback);
+  }
+
+  /**
+   * Register callback for "Generate" (synthetic demo data)
+   */
+  onGenerate(callback: (options: SyntheticDataOptions) => void): void {
+    this.generateCallbacks.push(callback);
+  }
+
+  /**
+   * Show the dialog
+   */
+  open(): void {
+    this.container.classList.add('open');
+    document.addEventListener('keydown', this.handleKeyDown);
+  }
+
+  /**
+   * Hide the dialog
+   */
+  close(): void {
+    this.container.classList.remove('open');
+    document.removeEventListener('keydown', this.handleKeyDown);
+  }
+}
+
+// Factory function
+export function createLibraryPanel(containerId: string): LibraryPanel {
+  const panel = new LibraryPanel(containerId);
+  panel.render();
+  return panel;
+}
@@ -1,11 +1,45 @@
 // Oscillator Mixer
 // UI for managing 3 oscillator layers with individual wavetables
-// Each oscillator has its own dropdown for selecting days
+// Each oscillator has its own dropdown for selecting days or time windows
 
 import { getSynth, GlucoseSynth } from '../synthesis/synth-engine';
-import { getWaveformForDisplay } from '../synthesis/wavetable';
+import {
+  getWaveformForDisplay,
+  getGapSpansForDisplay,
+  getGlucoseScaleForDisplay,
+  getTargetBandsForDisplay,
+  generateWavetable,
+  generateWavetableFrames,
+  isDefaultGeneration,
+  MAX_SMOOTHING_PASSES,
+  SEAM_TREATMENTS,
+  WAVETABLE_INTERPOLATIONS,
+  WAVETABLE_MODES,
+  type TargetBands,
+  type WavetableGenerationOptions,
+  type WavetableInterpolation,
+  type WavetableMode,
+  type SeamTreatment,
+} from '../synthesis/wavetable';
 import { formatDateForDisplay } from '../parser/libreview';
-import type { DailyGlucoseData, ParsedLibreViewData } from '../types';
+import { formatRelativeDay, isRelativeTimeline } from '../parser/relative-timeline';
+import {
+  TIME_WINDOW_HEADINGS,
+  getWavetableSource,
+  getWindowKeys,
+  formatClock,
+  formatDateTimeInput,
+  parseDateTimeInput,
+} from '../parser/time-windows';
+import { getGlucoseTargets, getTimeInRangeClass } from '../parser/glucose-targets';
+import {
+  MIN_DATA_SUFFICIENCY,
+  calculatePeriodMetrics,
+  formatMetricsDetail,
+  formatMetricsSummary,
+} from '../parser/glucose-metrics';
+import { formatGlucose, formatGlucoseWithUnit } from '../parser/display-unit';
+import type { DailyGlucoseData, GapFillPolicy, ParsedLibreViewData } from '../types';
 import {
   computeVolatility,
   computeRateOfChange,
@@ -18,14 +52,23 @@ import {
   type GlucoseStatsWithVolatility,
 } from '../synthesis/effects-config';
 
+// Width of the mini waveforms' SVG coordinate space
+const MINI_WAVEFORM_WIDTH = 50;
+
 type OscillatorChangeCallback = (oscIndex: number, dayData: DailyGlucoseData | null) => void;
+type CustomWindowCallback = (oscIndex: number, start: number, end: number) => void;
+type WavetableExportCallback = (frames: Float32Array[], sources: DailyGlucoseData[]) => void;
 
 export class OscillatorMixer {
   private container: HTMLElement;
   private data: ParsedLibreViewData | null = null;
-  private selectedDays: (string | null)[] = [null, null, null];
+  private gapFill: GapFillPolicy = 'linear'; // the import's policy, for regenerated wavetables
+  private selectedDays: (string | null)[] = [null, null, null]; // day or window keys
+  private exportKeys = new Set<string>(); // days and windows ticked for a multi-frame WAV
   private onChangeCallback: OscillatorChangeCallback | null = null;
+  private onCustomWindowCallback: CustomWindowCallback | null = null;
   private onRandomizeCallback: (() => void) | null = null;
+  private onExportCallback: WavetableExportCallback | null = null;
   
   // Cached synth reference
   private synth: GlucoseSynth;
@@ -81,7 +124,11 @@ export class OscillatorMixer {
       <div class="preview-time-labels">
         <span>00:00</span>
         <span>12:00</span>
-        <span>24:00</span>
+        <span>00:00</span>
+      </div>
+      <div class="preview-metrics">
+        <span class="preview-metrics-summary"></span>
+        <span class="preview-metrics-risk"></span>
       </div>
     `;
     
@@ -114,16 +161,48 @@ export class OscillatorMixer {
     this.onRandomizeCallback = callback;
   }
 
+  /**
+   * Set callback for a custom time range picked in an oscillator's dropdown
+   */
+  onCustomWindow(callback: CustomWindowCallback): void {
+    this.onCustomWindowCallback = callback;
+  }
+
+  /**
+   * Set callback for "Export WAV" (frames in time order, with the days or windows they came from)
+   */
+  onExportWavetable(callback: WavetableExportCallback): void {
+    this.onExportCallback = callback;
+  }
+
   /**
    * Load data
    */
   setData(data: ParsedLibreViewData): void {
     this.data = data;
+    for (const key of this.exportKeys) {
+      if (!getWavetableSource(data, key)) this.exportKeys.delete(key);
+    }
     this.render();
+    
+    // Re-apply selections so oscillators pick up regenerated wavetables
+    // (days and windows missing from the new data are cleared)
+    this.selectedDays.forEach((date, oscIndex) => {
+      if (date) {
+        this.setOscillatorDay(oscIndex, getWavetableSource(data, date) ? date : null);
+      }
+    });
   }
 
   /**
-   * Set a day for a specific oscillator
+   * Set the gap fill policy used when an oscillator regenerates its wavetable
+   */
+  setGapFill(gapFill: GapFillPolicy): void {
+    this.gapFill = gapFill;
+  }
+
+  /**
+   * Set a day (or time window, by key) for a specific oscillator
    */
   setOscillatorDay(oscIndex: number, date: string | null): void {
     if (oscIndex < 0 || oscIndex >= 3) return;
@@ -131,9 +210,18 @@ export class OscillatorMixer {
     this.selectedDays[oscIndex] = date;
     
     if (date && this.data) {
-      const dayData = this.data.days.get(date);
+      const dayData = getWavetableSource(this.data, date);
       if (dayData?.wavetable) {
-        this.synth.setWavetable(oscIndex, dayData.wavetable, date);
+        const generation = this.synth.getOscillatorGeneration(oscIndex);
+        // The import already built the default table; other options regenerate it from the readings.
+        // Frames are cut from the curve without seam and DC fixes, and get their own.
+        const curve = this.buildWavetable(dayData, { ...generation, removeDC: false, seam: 'none' });
+        this.synth.setWavetable(
+          oscIndex,
+          this.buildWavetable(dayData, generation),
+          dayData.window?.label ?? this.formatShortDate(date),
+          generateWavetableFrames(dayData, curve, generation)
+        );
         this.onChangeCallback?.(oscIndex, dayData);
       }
     } else {
@@ -144,6 +232,57 @@ export class OscillatorMixer {
     this.updateOscillatorDisplay(oscIndex);
   }
 
+  /**
+   * Build a source's wavetable with a set of generation options
+   */
+  private buildWavetable(dayData: DailyGlucoseData, generation: WavetableGenerationOptions): Float32Array {
+    return isDefaultGeneration(generation) && dayData.wavetable
+      ? dayData.wavetable
+      : generateWavetable(dayData, this.gapFill, generation);
+  }
+
+  /**
+   * Export the ticked days and windows (or the oscillator's own day) with its generation options
+   * Ticked sources become one frame each, oldest first.
+   */
+  private exportWavetable(oscIndex: number): void {
+    if (!this.data) return;
+    const data = this.data;
+    
+    const keys = this.exportKeys.size > 0
+      ? Array.from(this.exportKeys)
+      : [this.selectedDays[oscIndex]].filter((key): key is string => key !== null);
+    const sources = keys
+      .map(key => getWavetableSource(data, key))
+      .filter((source): source is DailyGlucoseData => source?.wavetable != null)
+      .sort((a, b) => a.startTime - b.startTime);
+    if (sources.length === 0) return;
+    
+    const generation = this.synth.getOscillatorGeneration(oscIndex);
+    const frames = sources.map(source => this.buildWavetable(source, generation));
+    this.onExportCallback?.(frames, sources);
+  }
+
+  /**
+   * Change how an oscillator builds its wavetable and regenerate it
+   */
+  setOscillatorGeneration(oscIndex: number, generation: WavetableGenerationOptions): void {
+    if (oscIndex < 0 || oscIndex >= 3) return;
+    
+    this.synth.setOscillatorGeneration(oscIndex, generation);
+    if (this.selectedDays[oscIndex]) {
+      this.setOscillatorDay(oscIndex, this.selectedDays[oscIndex]);
+    }
+  }
+
+  /**
+   * Get the loaded data for an oscillator's selected day
+   */
+  private getSelectedDayData(oscIndex: number): DailyGlucoseData | undefined {
+    const date = this.selectedDays[oscIndex];
+    return date && this.data ? getWavetableSource(this.data, date) : undefined;
+  }
+
   /**
    * Get selected day for oscillator
    */
@@ -172,7 +311,10 @@ export class OscillatorMixer {
     
     if (statsArray.length > 0) {
       // Combine stats from all active oscillators
-      const combinedStats = combineGlucoseStats(statsArray);
+      const combinedStats = combineGlucoseStats(
+        statsArray,
+        calculatePeriodMetrics(this.getSelectedSources(), getGlucoseTargets())
+      );
       
       // Randomize effects based on glucose data
       this.synth.getEffectsChain().randomizeFromGlucose(combinedStats);
@@ -187,6 +329,38 @@ export class OscillatorMixer {
     this.onRandomizeCallback?.();
   }
 
+  /**
+   * Get the distinct days and windows loaded into the oscillators
+   */
+  private getSelectedSources(): DailyGlucoseData[] {
+    if (!this.data) return [];
+    const data = this.data;
+    return Array.from(new Set(this.selectedDays))
+      .filter((key): key is string => key !== null)
+      .map(key => getWavetableSource(data, key))
+      .filter((source): source is DailyGlucoseData => source !== undefined);
+  }
+
+  /**
+   * Show the consensus metrics of the selected days as one period in the header
+   */
+  private updatePeriodMetrics(): void {
+    const label = this.container.querySelector<HTMLElement>('.mixer-period-metrics');
+    if (!label) return;
+
+    const sources = this.getSelectedSources();
+    if (sources.length === 0) {
+      label.textContent = '';
+      label.removeAttribute('title');
+      return;
+    }
+    const metrics = calculatePeriodMetrics(sources, getGlucoseTargets());
+    label.textContent = formatMetricsSummary(metrics);
+    label.title = `Selected ${sources.length === 1 ? 'source' : `${sources.length} sources`} as one period\n` +
+      formatMetricsDetail(metrics, getGlucoseTargets());
+    label.classList.toggle('low-data', metrics.dataSufficiency < MIN_DATA_SUFFICIENCY);
+  }
+
   /**
    * Collect glucose stats with all computed metrics from all selected oscillator days
    */
@@ -198,7 +372,7 @@ export class OscillatorMixer {
     for (const date of this.selectedDays) {
       if (!date) continue;
       
-      const dayData = this.data.days.get(date);
+      const dayData = getWavetableSource(this.data, date);
       if (!dayData) continue;
       
       // Compute all metrics from readings
@@ -216,6 +390,7 @@ export class OscillatorMixer {
         range,
         coefficientOfVariation,
         rateOfChange,
+        metrics: dayData.metrics,
       });
     }
     
@@ -332,26 +507,48 @@ export class OscillatorMixer {
     const date = this.selectedDays[oscIndex];
     if (!date) return;
     
-    const dayData = this.data.days.get(date);
-    if (!dayData?.wavetable) return;
+    const dayData = getWavetableSource(this.data, date);
+    const wavetable = this.synth.getOscillatorInfo(oscIndex)?.wavetable;
+    if (!dayData || !wavetable) return;
+    const mode = this.synth.getOscillatorGeneration(oscIndex).mode;
     
     // Update preview content
     const dateLabel = this.waveformPreview.querySelector('.preview-date');
     const statsLabel = this.waveformPreview.querySelector('.preview-stats');
     
-    if (dateLabel) {
-      const d = new Date(date + 'T00:00:00');
-      dateLabel.textContent = d.toLocaleDateString('en-US', { 
-        weekday: 'short', 
-        month: 'short', 
-        day: 'numeric', 
-        year: 'numeric' 
-      });
+    if (dateLabel && dayData.window) {
+      dateLabel.textContent = dayData.window.label;
+    } else if (dateLabel) {
+      dateLabel.textContent = formatDateForDisplay(date);
+      
+      // Flag DST transition days (the waveform spans their real length)
+      const hours = Math.round((dayData.endTime - dayData.startTime) / 3600000);
+      if (hours !== 24) {
+        dateLabel.textContent += ` · ${hours}h day`;
+      }
     }
     
+    // Clock times at the start, middle and end of the span (days may start at a set hour)
+    const timeLabels = this.waveformPreview.querySelectorAll('.preview-time-labels span');
+    const mid = (dayData.startTime + dayData.endTime) / 2;
+    [dayData.startTime, mid, dayData.endTime].forEach((instant, i) => {
+      if (timeLabels[i]) timeLabels[i].textContent = formatClock(instant, this.data!.timezone);
+    });
+    
     if (statsLabel && dayData.stats) {
       const inRange = Math.round(dayData.stats.timeInRange);
-      statsLabel.textContent = `↓${Math.round(dayData.stats.min)} µ${Math.round(dayData.stats.avg)} ↑${Math.round(dayData.stats.max)} | ${inRange}%`;
+      statsLabel.textContent = `↓${formatGlucose(dayData.stats.min)} µ${formatGlucose(dayData.stats.avg)} ↑${formatGlucose(dayData.stats.max)} | ${inRange}%`;
+    }
+    
+    // Consensus metrics: GMI/CV/TBR/TAR, then excursions, risk indices and data sufficiency
+    const metrics = dayData.metrics;
+    const summaryLabel = this.waveformPreview.querySelector('.preview-metrics-summary');
+    const riskLabel = this.waveformPreview.querySelector('.preview-metrics-risk');
+    if (summaryLabel) summaryLabel.textContent = formatMetricsSummary(metrics);
+    if (riskLabel) {
+      riskLabel.textContent = `MAGE ${formatGlucose(metrics.mage)} · LBGI ${metrics.lbgi.toFixed(1)} · ` +
+        `HBGI ${metrics.hbgi.toFixed(1)} · ${Math.round(metrics.dataSufficiency)}% data`;
+      riskLabel.classList.toggle('low-data', metrics.dataSufficiency < MIN_DATA_SUFFICIENCY);
     }
     
     // Append to container if not already
@@ -366,8 +563,13 @@ export class OscillatorMixer {
     this.waveformPreview.style.bottom = 'auto';
     this.waveformPreview.style.marginTop = '8px';
     
-    // Draw the waveform
-    this.drawPreviewWaveform(dayData.wavetable, dayData.stats);
+    // Draw the oscillator's waveform on its mode's scale
+    this.drawPreviewWaveform(
+      wavetable,
+      getGlucoseScaleForDisplay(dayData, mode),
+      getGapSpansForDisplay(dayData),
+      getTargetBandsForDisplay(dayData, getGlucoseTargets(), mode)
+    );
     
     // Show with animation
     this.waveformPreview.classList.add('active');
@@ -383,7 +585,12 @@ export class OscillatorMixer {
   /**
    * Draw waveform on the preview canvas
    */
-  private drawPreviewWaveform(wavetable: Float32Array, stats: DailyGlucoseData['stats']): void {
+  private drawPreviewWaveform(
+    wavetable: Float32Array,
+    scale: { min: number; mid: number; max: number } | null,
+    gaps: { from: number; to: number }[],
+    bands: TargetBands | null
+  ): void {
     if (!this.previewCanvas || !this.previewCtx) return;
     
     const ctx = this.previewCtx;
@@ -405,10 +612,40 @@ export class OscillatorMixer {
     // Draw background grid
     this.drawPreviewGrid(ctx, width, height);
     
+    // Shade sensor gaps (the curve there is filled in, not measured)
+    ctx.fillStyle = 'rgba(107, 93, 82, 0.25)';
+    for (const gap of gaps) {
+      ctx.fillRect(gap.from * width, 0, (gap.to - gap.from) * width, height);
+    }
+    
     // Get waveform points
     const points = getWaveformForDisplay(wavetable, Math.floor(width));
     const drawHeight = height - padding * 2;
     
+    // Target range band and hypo/hyper lines behind the curve
+    if (bands) {
+      const toY = (value: number) => padding + ((1 - value) / 2) * drawHeight;
+      const top = Math.max(0, toY(bands.targetHigh));
+      const bottom = Math.min(height, toY(bands.targetLow));
+      if (bottom > top) {
+        ctx.fillStyle = 'rgba(143, 188, 143, 0.1)';
+        ctx.fillRect(0, top, width, bottom - top);
+      }
+      
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 4]);
+      for (const [value, color] of [[bands.hyper, 'rgba(201, 112, 100, 0.6)'], [bands.hypo, 'rgba(107, 154, 196, 0.6)']] as const) {
+        const y = toY(value);
+        if (y < 0 || y > height) continue;
+        ctx.strokeStyle = color;
+        ctx.beginPath();
+        ctx.moveTo(0, y);
+        ctx.lineTo(width, y);
+        ctx.stroke();
+      }
+      ctx.setLineDash([]);
+    }
+    
     // Create gradient
     const gradient = ctx.createLinearGradient(0, padding, 0, height - padding);
     gradient.addColorStop(0, '#c97064');    // High glucose - warm red/coral
@@ -468,14 +705,19 @@ export class OscillatorMixer {
     ctx.lineWidth = 1;
     ctx.stroke();
     
-    // Draw min/max labels
+    // Draw min/mid/max labels (rate-of-change tables are scaled to their steepest slope)
     ctx.fillStyle = 'rgba(232, 168, 124, 0.8)';
     ctx.font = "10px 'IBM Plex Mono', monospace";
     ctx.textAlign = 'right';
-    ctx.fillText(`${Math.round(stats.max)} mg/dL`, width - 6, padding + 12);
+    ctx.fillText(scale ? formatGlucoseWithUnit(scale.max) : 'rising', width - 6, padding + 12);
+    
+    if (scale) {
+      ctx.fillStyle = 'rgba(143, 188, 143, 0.8)';
+      ctx.fillText(formatGlucoseWithUnit(scale.mid), width - 6, height / 2 - 4);
+    }
     
     ctx.fillStyle = 'rgba(107, 154, 196, 0.8)';
-    ctx.fillText(`${Math.round(stats.min)} mg/dL`, width - 6, height - padding - 4);
+    ctx.fillText(scale ? formatGlucoseWithUnit(scale.min) : 'falling', width - 6, height - padding - 4);
   }
   
   /**
@@ -526,6 +768,7 @@ export class OscillatorMixer {
     header.className = 'mixer-header';
     header.innerHTML = `
       <h3>Oscillators</h3>
+      <span class="mixer-period-metrics"></span>
       <button id="randomize-btn" class="randomize-btn" title="Randomize oscillator wavetables">
         <span class="dice-icon">🎲</span> Randomize
       </button>
@@ -563,6 +806,10 @@ export class OscillatorMixer {
     }
 
     this.container.appendChild(slotsContainer);
+    for (let i = 0; i < 3; i++) {
+      this.updatePositionControl(i);
+    }
+    this.updatePeriodMetrics();
     
     // Re-append waveform preview
     if (this.waveformPreview) {
@@ -593,7 +840,7 @@ export class OscillatorMixer {
     waveformContainer.id = `osc-wave-${index}`;
     
     if (info?.wavetable) {
-      waveformContainer.innerHTML = this.createMiniWaveformSVG(info.wavetable);
+      waveformContainer.innerHTML = this.createMiniWaveformSVG(info.wavetable, this.getSelectedDayData(index), true);
     } else {
       waveformContainer.innerHTML = '<span class="empty-slot">Select Day</span>';
     }
@@ -603,7 +850,7 @@ export class OscillatorMixer {
     const dayLabelContainer = document.createElement('div');
     dayLabelContainer.className = 'osc-day-selector';
     dayLabelContainer.innerHTML = `
-      <span class="osc-day-label" id="osc-day-${index}">${info?.dayLabel ? this.formatShortDate(info.dayLabel) : 'Select...'}</span>
+      <span class="osc-day-label" id="osc-day-${index}">${info?.dayLabel || 'Select...'}</span>
       <svg class="dropdown-arrow" viewBox="0 0 24 24" width="12" height="12">
         <polyline points="6 9 12 15 18 9" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>
       </svg>
@@ -642,6 +889,9 @@ export class OscillatorMixer {
     levelContainer.appendChild(levelSlider);
     slot.appendChild(levelContainer);
 
+    // Position slider: scans through the source's hourly frames while "Scan" is on
+    slot.appendChild(this.createPositionControl(index));
+
     // Clear button
     const clearBtn = document.createElement('button');
     clearBtn.className = 'osc-clear-btn';
@@ -700,6 +950,79 @@ export class OscillatorMixer {
     return slot;
   }
   
+  /**
+   * Create the scan toggle and position slider for an oscillator
+   */
+  private createPositionControl(index: number): HTMLElement {
+    const positionContainer = document.createElement('div');
+    positionContainer.className = 'osc-level osc-position';
+    positionContainer.innerHTML = `
+      <label class="level-label" title="Scan through the day one hour-long frame at a time">
+        <input type="checkbox" class="osc-scan-toggle" id="osc-scan-${index}" /> Scan
+      </label>
+      <input type="range" class="level-slider" id="osc-position-${index}" min="0" max="1000" value="0" />
+    `;
+
+    const toggle = positionContainer.querySelector<HTMLInputElement>('.osc-scan-toggle')!;
+    const slider = positionContainer.querySelector<HTMLInputElement>('.level-slider')!;
+
+    toggle.addEventListener('change', (e) => {
+      e.stopPropagation();
+      this.synth.setOscillatorPosition(index, toggle.checked ? parseInt(slider.value) / 1000 : null);
+      this.updatePositionControl(index);
+    });
+
+    slider.addEventListener('input', (e) => {
+      e.stopPropagation();
+      this.synth.setOscillatorPosition(index, parseInt(slider.value) / 1000);
+      this.updatePositionMarker(index);
+    });
+
+    positionContainer.addEventListener('click', (e) => e.stopPropagation());
+
+    return positionContainer;
+  }
+
+  /**
+   * Sync an oscillator's scan toggle and position slider with the synth
+   */
+  private updatePositionControl(index: number): void {
+    // Desktop and mobile mixers share ids, so look inside this mixer only
+    const toggle = this.container.querySelector<HTMLInputElement>(`#osc-scan-${index}`);
+    const slider = this.container.querySelector<HTMLInputElement>(`#osc-position-${index}`);
+    const info = this.synth.getOscillatorInfo(index);
+    const hasFrames = (info?.frameCount ?? 0) > 0;
+
+    if (toggle) {
+      toggle.disabled = !hasFrames;
+      toggle.checked = info?.position != null;
+    }
+    if (slider) {
+      slider.disabled = !hasFrames || info?.position == null;
+      if (info?.position != null) slider.value = String(Math.round(info.position * 1000));
+    }
+    this.updatePositionMarker(index);
+  }
+
+  /**
+   * Move the frame marker on an oscillator's mini waveform
+   */
+  private updatePositionMarker(index: number): void {
+    const marker = this.container.querySelector<SVGRectElement>(`#osc-wave-${index} .frame-mark`);
+    const info = this.synth.getOscillatorInfo(index);
+    if (!marker || !info) return;
+
+    if (info.position === null || info.frameCount === 0) {
+      marker.style.display = 'none';
+      return;
+    }
+    // The marker spans the frame nearest the position
+    const frame = Math.round(info.position * (info.frameCount - 1));
+    marker.setAttribute('x', ((frame / info.frameCount) * MINI_WAVEFORM_WIDTH).toFixed(1));
+    marker.setAttribute('width', (MINI_WAVEFORM_WIDTH / info.frameCount).toFixed(1));
+    marker.style.display = '';
+  }
+  
   /**
    * Create dropdown panel for oscillator
    */
@@ -726,7 +1049,25 @@ export class OscillatorMixer {
       list.appendChild(item);
     }
     
+    // Sleep, post-meal and custom windows under their own headings
+    for (const { kind, heading } of TIME_WINDOW_HEADINGS) {
+      const keys = getWindowKeys(this.data, kind);
+      if (keys.length === 0) continue;
+      
+      const headingEl = document.createElement('div');
+      headingEl.className = 'osc-list-heading';
+      headingEl.textContent = heading;
+      list.appendChild(headingEl);
+      
+      for (const key of keys) {
+        list.appendChild(this.createDayItem(key, this.data.windows.get(key)!, oscIndex));
+      }
+    }
+    
     panel.appendChild(list);
+    panel.appendChild(this.createCustomRangeForm(oscIndex));
+    panel.appendChild(this.createGenerationForm(oscIndex));
+    panel.appendChild(this.createExportForm(oscIndex));
     
     // Stop propagation on panel to prevent closing when interacting with it
     panel.addEventListener('click', (e) => e.stopPropagation());
@@ -748,25 +1089,43 @@ export class OscillatorMixer {
     }
     
     // Mini waveform preview
-    const waveformPreview = this.createMiniWaveformSVG(dayData.wavetable!);
+    const waveformPreview = this.createMiniWaveformSVG(dayData.wavetable!, dayData);
     
     // Stats
     const stats = dayData.stats;
-    const tirClass = stats.timeInRange >= 70 ? 'good' : stats.timeInRange >= 50 ? 'warning' : 'bad';
+    const tirClass = getTimeInRangeClass(stats.timeInRange);
+    const lowData = dayData.metrics.dataSufficiency < MIN_DATA_SUFFICIENCY;
     
+    item.title = formatMetricsDetail(dayData.metrics, getGlucoseTargets());
     item.innerHTML = `
       <div class="day-info">
-        <div class="day-date">${formatDateForDisplay(date)}</div>
+        <div class="day-date">${dayData.window?.label ?? formatDateForDisplay(date)}</div>
         <div class="day-stats">
-          <span class="stat">↓${Math.round(stats.min)}</span>
-          <span class="stat">μ${Math.round(stats.avg)}</span>
-          <span class="stat">↑${Math.round(stats.max)}</span>
+          <span class="stat">↓${formatGlucose(stats.min)}</span>
+          <span class="stat">μ${formatGlucose(stats.avg)}</span>
+          <span class="stat">↑${formatGlucose(stats.max)}</span>
           <span class="stat tir ${tirClass}">${Math.round(stats.timeInRange)}%</span>
         </div>
+        <div class="day-metrics">
+          ${formatMetricsSummary(dayData.metrics)}${lowData ? ` · <span class="low-data">${Math.round(dayData.metrics.dataSufficiency)}% data</span>` : ''}
+        </div>
       </div>
       <div class="day-waveform">${waveformPreview}</div>
+      <input type="checkbox" class="osc-export-mark" title="Add to the WAV export" ${this.exportKeys.has(date) ? 'checked' : ''} />
     `;
     
+    // Ticking a day for export leaves the oscillator's selection alone
+    const mark = item.querySelector<HTMLInputElement>('.osc-export-mark')!;
+    mark.addEventListener('click', (e) => e.stopPropagation());
+    mark.addEventListener('change', () => {
+      if (mark.checked) {
+        this.exportKeys.add(date);
+      } else {
+        this.exportKeys.delete(date);
+      }
+      this.updateExportMarks();
+    });
+    
     // Click to select
     item.addEventListener('click', (e) => {
       e.stopPropagation();
@@ -776,15 +1135,165 @@ export class OscillatorMixer {
     
     return item;
   }
+  
+  /**
+   * Create the "custom range" form at the bottom of a dropdown
+   * Times are entered in the import's timezone; the range defaults to the selected day or window
+   */
+  private createCustomRangeForm(oscIndex: number): HTMLElement {
+    const form = document.createElement('form');
+    form.className = 'osc-custom-range';
+    if (!this.data) return form;
+    
+    const timeZone = this.data.timezone;
+    const dates = Array.from(this.data.days.keys()).sort();
+    const first = this.data.days.get(dates[0])!;
+    const last = this.data.days.get(dates[dates.length - 1])!;
+    const current = this.getSelectedDayData(oscIndex) ?? last;
+    const min = formatDateTimeInput(first.startTime, timeZone);
+    const max = formatDateTimeInput(last.endTime, timeZone);
+    
+    form.innerHTML = `
+      <div class="osc-list-heading">Custom range</div>
+      <div class="osc-custom-fields">
+        <input type="datetime-local" name="start" min="${min}" max="${max}" value="${formatDateTimeInput(current.startTime, timeZone)}" required />
+        <span>–</span>
+        <input type="datetime-local" name="end" min="${min}" max="${max}" value="${formatDateTimeInput(current.endTime, timeZone)}" required />
+        <button type="submit" class="osc-custom-add">Add</button>
+      </div>
+      <div class="osc-custom-error"></div>
+    `;
+    
+    form.addEventListener('submit', (e) => {
+      e.preventDefault();
+      const start = parseDateTimeInput((form.elements.namedItem('start') as HTMLInputElement).value, timeZone);
+      const end = parseDateTimeInput((form.elements.namedItem('end') as HTMLInputElement).value, timeZone);
+      const error = form.querySelector('.osc-custom-error');
+      if (start === null || end === null || end <= start) {
+        if (error) error.textContent = 'The range must end after it starts';
+        return;
+      }
+      if (error) error.textContent = '';
+      this.onCustomWindowCallback?.(oscIndex, start, end);
+    });
+    
+    return form;
+  }
+
+  /**
+   * Create the "wavetable" settings at the bottom of a dropdown
+   * Changes regenerate the oscillator's table straight away
+   */
+  private createGenerationForm(oscIndex: number): HTMLElement {
+    const form = document.createElement('div');
+    form.className = 'osc-custom-range osc-generation';
+    const generation = this.synth.getOscillatorGeneration(oscIndex);
+    
+    form.innerHTML = `
+      <div class="osc-list-heading">Wavetable</div>
+      <div class="osc-custom-fields">
+        <select name="mode" title="How glucose values are scaled into the wavetable">
+          ${WAVETABLE_MODES.map(mode => `
+            <option value="${mode.id}" ${mode.id === generation.mode ? 'selected' : ''}>${mode.label}</option>
+          `).join('')}
+        </select>
+        <select name="interpolation" title="How the curve is drawn between readings">
+          ${WAVETABLE_INTERPOLATIONS.map(interpolation => `
+            <option value="${interpolation}" ${interpolation === generation.interpolation ? 'selected' : ''}>${interpolation}</option>
+          `).join('')}
+        </select>
+        <input type="number" name="smoothing" min="0" max="${MAX_SMOOTHING_PASSES}" step="1" value="${generation.smoothing}" title="Smoothing passes" />
+      </div>
+      <div class="osc-custom-fields">
+        <select name="seam" title="How the jump from the end of the table back to its start is hidden">
+          ${SEAM_TREATMENTS.map(seam => `
+            <option value="${seam.id}" ${seam.id === generation.seam ? 'selected' : ''}>${seam.label}</option>
+          `).join('')}
+        </select>
+        <label class="osc-generation-check" title="Center the table on its mean (removes the DC offset)">
+          <input type="checkbox" name="removeDC" ${generation.removeDC ? 'checked' : ''} /> Remove DC
+        </label>
+      </div>
+    `;
+    
+    const read = (name: string) => (form.querySelector(`[name="${name}"]`) as HTMLInputElement | HTMLSelectElement).value;
+    form.addEventListener('change', () => {
+      const smoothing = parseInt(read('smoothing'));
+      const smoothingInput = form.querySelector<HTMLInputElement>('[name="smoothing"]')!;
+      const passes = isNaN(smoothing)
+        ? this.synth.getOscillatorGeneration(oscIndex).smoothing
+        : Math.max(0, Math.min(MAX_SMOOTHING_PASSES, smoothing));
+      smoothingInput.value = String(passes);
+      
+      this.setOscillatorGeneration(oscIndex, {
+        mode: read('mode') as WavetableMode,
+        interpolation: read('interpolation') as WavetableInterpolation,
+        smoothing: passes,
+        removeDC: form.querySelector<HTMLInputElement>('[name="removeDC"]')!.checked,
+        seam: read('seam') as SeamTreatment,
+      });
+    });
+    
+    return form;
+  }
+
+  /**
+   * Create the "export WAV" row at the bottom of a dropdown
+   */
+  private createExportForm(oscIndex: number): HTMLElement {
+    const form = document.createElement('div');
+    form.className = 'osc-custom-range osc-export';
+    
+    form.innerHTML = `
+      <div class="osc-list-heading">Export WAV</div>
+      <div class="osc-custom-fields">
+        <span class="osc-export-hint">${this.getExportHint()}</span>
+        <button type="button" class="osc-custom-add osc-export-btn" title="Download a 32-bit float wavetable WAV (2048 samples per frame) with this oscillator's wavetable settings">Export</button>
+      </div>
+    `;
+    
+    form.querySelector('.osc-export-btn')?.addEventListener('click', () => this.exportWavetable(oscIndex));
+    
+    return form;
+  }
 
   /**
-   * Create mini waveform SVG
+   * What "Export" will write
    */
-  private createMiniWaveformSVG(wavetable: Float32Array): string {
+  private getExportHint(): string {
+    const count = this.exportKeys.size;
+    if (count === 0) return 'Selected day · tick days to stack them';
+    return `${count} ticked ${count === 1 ? 'day' : 'days'} as ${count === 1 ? 'one frame' : `${count} frames`}`;
+  }
+
+  /**
+   * Sync the export ticks and hints across every oscillator's dropdown
+   */
+  private updateExportMarks(): void {
+    this.container.querySelectorAll<HTMLElement>('.osc-day-item').forEach(item => {
+      const mark = item.querySelector<HTMLInputElement>('.osc-export-mark');
+      if (mark) mark.checked = this.exportKeys.has(item.dataset.date ?? '');
+    });
+    const hint = this.getExportHint();
+    this.container.querySelectorAll('.osc-export-hint').forEach(el => {
+      el.textContent = hint;
+    });
+  }
+
+  /**
+   * Create mini waveform SVG (gaps are drawn as shaded bands)
+   */
+  private createMiniWaveformSVG(wavetable: Float32Array, dayData?: DailyGlucoseData, withFrameMarker = false): string {
     const points = getWaveformForDisplay(wavetable, 50);
-    const width = 50;
+    const width = MINI_WAVEFORM_WIDTH;
     const height = 30;
 
+    const gapRects = dayData
+      ? getGapSpansForDisplay(dayData)
+          .map(gap => `<rect class="gap-mark" x="${(gap.from * width).toFixed(1)}" y="0" width="${((gap.to - gap.from) * width).toFixed(1)}" height="${height}"/>`)
+          .join('')
+      : '';
+
     let path = '';
     for (let i = 0; i < points.length; i++) {
       const x = (i / (points.length - 1)) * width;
@@ -792,7 +1301,12 @@ export class OscillatorMixer {
       path += `${i === 0 ? 'M' : 'L'} ${x.toFixed(1)} ${y.toFixed(1)} `;
     }
 
-    return `<svg viewBox="0 0 ${width} ${height}"><path d="${path}" fill="none" stroke="currentColor" stroke-width="1.5"/></svg>`;
+    // Placed by updatePositionMarker
+    const frameMark = withFrameMarker
+      ? `<rect class="frame-mark" x="0" y="0" width="0" height="${height}" style="display: none"/>`
+      : '';
+
+    return `<svg viewBox="0 0 ${width} ${height}">${gapRects}${frameMark}<path d="${path}" fill="none" stroke="currentColor" stroke-width="1.5"/></svg>`;
   }
 
   /**
@@ -806,14 +1320,16 @@ export class OscillatorMixer {
     
     if (waveContainer) {
       if (info?.wavetable) {
-        waveContainer.innerHTML = this.createMiniWaveformSVG(info.wavetable);
+        waveContainer.innerHTML = this.createMiniWaveformSVG(info.wavetable, this.getSelectedDayData(index), true);
       } else {
         waveContainer.innerHTML = '<span class="empty-slot">Select Day</span>';
       }
     }
+    this.updatePositionControl(index);
+    this.updatePeriodMetrics();
     
     if (dayLabel) {
-      dayLabel.textContent = info?.dayLabel ? this.formatShortDate(info.dayLabel) : 'Select...';
+      dayLabel.textContent = info?.dayLabel || 'Select...';
     }
     
     // Update dropdown selection state
@@ -831,6 +1347,7 @@ export class OscillatorMixer {
    * Format date for display
    */
   private formatShortDate(dateStr: string): string {
+    if (isRelativeTimeline()) return formatRelativeDay(dateStr);
     const date = new Date(dateStr + 'T00:00:00');
     return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
   }
@@ -0,0 +1,513 @@
+// Settings Panel
+// Modal dialog for import and display preferences, shared by desktop and mobile
+
+import type { GapFillPolicy, ReadingMergeStrategy } from '../types';
+import { GAP_FILL_POLICIES, READING_MERGE_STRATEGIES, POST_MEAL_HOURS, type ImportOptions } from '../parser/import-options';
+import { getLocalTimeZone, getSupportedTimeZones } from '../parser/timezone';
+import type { ColumnMappingProfile } from '../parser/column-mapping';
+import { GLUCOSE_TARGET_PRESETS, isValidGlucoseTargets, type GlucoseTargets } from '../parser/glucose-targets';
+import {
+  DISPLAY_UNIT_OPTIONS,
+  formatGlucose,
+  fromDisplayUnit,
+  getDisplayUnit,
+  toDisplayUnit,
+  type DisplayUnitPreference,
+} from '../parser/display-unit';
+
+const GAP_FILL_LABELS: Record<GapFillPolicy, string> = {
+  hold: 'Hold last value',
+  linear: 'Linear',
+  spline: 'Smooth (spline)',
+  silence: 'Silence',
+};
+
+const READING_MERGE_LABELS: Record<ReadingMergeStrategy, string> = {
+  'historic': 'Historic only',
+  'historic-scans': 'Historic + scans',
+  'scans-interpolated': 'Historic, scans fill gaps',
+};
+
+// Target fields in display order (glucose fields are shown in the display unit, the TIR badge levels in %)
+const TARGET_FIELDS: { key: keyof GlucoseTargets; label: string; glucose: boolean }[] = [
+  { key: 'targetLow', label: 'Target low', glucose: true },
+  { key: 'targetHigh', label: 'Target high', glucose: true },
+  { key: 'hypo', label: 'Hypo below', glucose: true },
+  { key: 'hyper', label: 'Hyper above', glucose: true },
+  { key: 'tirGood', label: 'TIR good from', glucose: false },
+  { key: 'tirFair', label: 'TIR fair from', glucose: false },
+];
+
+// Sleep window used when sleep windows are first switched on
+const DEFAULT_SLEEP_WINDOW = { start: 23 * 60, end: 7 * 60 };
+
+/**
+ * Options for every hour of the day ("04:00"), valued in hours or minutes
+ */
+function hourOptions(unit: 'hours' | 'minutes'): string {
+  return Array.from({ length: 24 }, (_, hour) =>
+    `<option value="${unit === 'hours' ? hour : hour * 60}">${String(hour).padStart(2, '0')}:00</option>`
+  ).join('');
+}
+
+/**
+ * Preset option text with its range in the display unit ("Pregnancy (3.5–7.8, TIR > 70%)")
+ */
+function presetLabel(preset: { name: string; targets: GlucoseTargets }): string {
+  const { targetLow, targetHigh, tirGood } = preset.targets;
+  return `${preset.name} (${formatGlucose(targetLow)}–${formatGlucose(targetHigh)}, TIR > ${tirGood}%)`;
+}
+
+/**
+ * Escape user-entered text (profile and column names) before putting it in markup
+ */
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export class SettingsPanel {
+  private container: HTMLElement;
+  private importOptions: ImportOptions;
+  private importChangeCallbacks: ((options: ImportOptions) => void)[] = [];
+  private mappingProfiles: ColumnMappingProfile[] = [];
+  private profileDeleteCallbacks: ((name: string) => void)[] = [];
+  private glucoseTargets: GlucoseTargets;
+  private targetsChangeCallbacks: ((targets: GlucoseTargets) => void)[] = [];
+  private displayUnit: DisplayUnitPreference;
+  private displayUnitChangeCallbacks: ((preference: DisplayUnitPreference) => void)[] = [];
+
+  constructor(
+    containerId: string,
+    importOptions: ImportOptions,
+    glucoseTargets: GlucoseTargets,
+    displayUnit: DisplayUnitPreference
+  ) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container element #${containerId} not found`);
+    }
+    this.container = container;
+    this.importOptions = { ...importOptions };
+    this.glucoseTargets = { ...glucoseTargets };
+    this.displayUnit = displayUnit;
+
+    this.handleKeyDown = this.handleKeyDown.bind(this);
+  }
+
+  /**
+   * Render the panel (hidden until opened)
+   */
+  render(): void {
+    this.container.className = 'modal-overlay';
+    this.container.innerHTML = `
+      <div class="modal-dialog" role="dialog" aria-modal="true" aria-labelledby="settings-title">
+        <div class="modal-header">
+          <span class="modal-title" id="settings-title">Settings</span>
+          <button class="modal-close" title="Close">×</button>
+        </div>
+        <div class="modal-body">
+          ${this.renderImportSection()}
+          ${this.renderDisplaySection()}
+          ${this.renderTargetsSection()}
+          <section class="settings-section" data-section="mappings"></section>
+        </div>
+      </div>
+    `;
+
+    this.setupEventListeners();
+    this.renderMappingSection();
+  }
+
+  /**
+   * Render saved column mapping profiles (the section is hidden while there are none)
+   */
+  private renderMappingSection(): void {
+    const section = this.container.querySelector('[data-section="mappings"]') as HTMLElement | null;
+    if (!section) return;
+
+    section.hidden = this.mappingProfiles.length === 0;
+    section.innerHTML = `
+      <h3 class="settings-section-title">Column mappings</h3>
+      <ul class="settings-profile-list">
+        ${this.mappingProfiles.map(profile => `
+          <li class="settings-profile">
+            <span class="settings-profile-name">${escapeHTML(profile.name)}</span>
+            <span class="settings-hint">${escapeHTML(profile.mapping.timestamp)} · ${escapeHTML(profile.mapping.glucose)} · ${profile.mapping.unit}</span>
+            <button class="settings-profile-remove" data-profile="${escapeHTML(profile.name)}" title="Delete profile">×</button>
+          </li>
+        `).join('')}
+      </ul>
+      <span class="settings-hint">Saved from the column-mapping wizard and applied to CSVs with matching columns.</span>
+    `;
+
+    section.querySelectorAll<HTMLButtonElement>('.settings-profile-remove').forEach(btn => {
+      btn.addEventListener('click', () => {
+        const name = btn.dataset.profile ?? '';
+        this.profileDeleteCallbacks.forEach(cb => cb(name));
+      });
+    });
+  }
+
+  /**
+   * Render import settings
+   */
+  private renderImportSection(): string {
+    const localZone = getLocalTimeZone();
+    const zones = getSupportedTimeZones()
+      .map(zone => `<option value="${zone}">${zone.replace(/_/g, ' ')}</option>`)
+      .join('');
+
+    return `
+      <section class="settings-section" data-section="import">
+        <h3 class="settings-section-title">Import</h3>
+        <label class="settings-field">
+          <span class="settings-label">Source timezone</span>
+          <select class="settings-select" data-setting="timezone">
+            <option value="auto">Auto (${localZone.replace(/_/g, ' ')})</option>
+            ${zones}
+          </select>
+          <span class="settings-hint">Timezone the export was recorded in. Days are split at local midnight (or the day start below), so DST days last 23 or 25 hours. A dataset loaded from the library keeps the times its files were read with: a new zone only moves its day boundaries, so re-import LibreView, Dexcom or CSV files to read their local times in it.</span>
+        </label>
+        <label class="settings-field">
+          <span class="settings-label">Historic / scan readings</span>
+          <select class="settings-select" data-setting="readingMerge">
+            ${READING_MERGE_STRATEGIES.map(strategy => `<option value="${strategy}">${READING_MERGE_LABELS[strategy]}</option>`).join('')}
+          </select>
+          <span class="settings-hint">Manual scans interleaved with the automatic series can cause spikes. Readings less than a minute apart are merged.</span>
+        </label>
+        <label class="settings-field">
+          <span class="settings-label">Sensor gap fill</span>
+          <select class="settings-select" data-setting="gapFill">
+            ${GAP_FILL_POLICIES.map(policy => `<option value="${policy}">${GAP_FILL_LABELS[policy]}</option>`).join('')}
+          </select>
+          <span class="settings-hint">How the waveform bridges stretches of 30+ minutes without readings. Gaps are shaded in the waveform views.</span>
+        </label>
+      </section>
+      <section class="settings-section" data-section="windows">
+        <h3 class="settings-section-title">Days &amp; windows</h3>
+        <label class="settings-field">
+          <span class="settings-label">Day starts at</span>
+          <select class="settings-select" data-setting="dayStartHour">${hourOptions('hours')}</select>
+          <span class="settings-hint">Start days later than midnight to keep each night in one waveform.</span>
+        </label>
+        <div class="settings-field">
+          <span class="settings-label">Sleep windows</span>
+          <div class="settings-range">
+            <select class="settings-select" data-setting="sleepStart" aria-label="Sleep start">
+              <option value="off">Off</option>
+              ${hourOptions('minutes')}
+            </select>
+            <span>to</span>
+            <select class="settings-select" data-setting="sleepEnd" aria-label="Sleep end">${hourOptions('minutes')}</select>
+          </div>
+          <span class="settings-hint">Adds each night's sleep period as its own wavetable source.</span>
+        </div>
+        <label class="settings-field">
+          <span class="settings-label">Post-meal windows</span>
+          <select class="settings-select" data-setting="postMealHours">
+            ${POST_MEAL_HOURS.map(hours => `<option value="${hours}">${hours === 0 ? 'Off' : `${hours} hours after carbs`}</option>`).join('')}
+          </select>
+          <span class="settings-hint">Adds the hours after each logged carb entry as a wavetable source.</span>
+        </label>
+      </section>
+    `;
+  }
+
+  /**
+   * Render display preferences
+   */
+  private renderDisplaySection(): string {
+    return `
+      <section class="settings-section" data-section="display">
+        <h3 class="settings-section-title">Display</h3>
+        <label class="settings-field">
+          <span class="settings-label">Glucose unit</span>
+          <select class="settings-select" data-setting="displayUnit">
+            ${DISPLAY_UNIT_OPTIONS.map(option => `<option value="${option.value}">${option.label}</option>`).join('')}
+          </select>
+          <span class="settings-hint">Unit for stats, waveform labels and the targets below. Values are converted for display only.</span>
+        </label>
+      </section>
+    `;
+  }
+
+  /**
+   * Render the target range and thresholds
+   */
+  private renderTargetsSection(): string {
+    return `
+      <section class="settings-section" data-section="targets">
+        <h3 class="settings-section-title">Glucose targets</h3>
+        <label class="settings-field">
+          <span class="settings-label">Preset</span>
+          <select class="settings-select" data-setting="targetPreset">
+            <option value="">Custom</option>
+            ${GLUCOSE_TARGET_PRESETS.map((preset, idx) => `<option value="${idx}">${presetLabel(preset)}</option>`).join('')}
+          </select>
+        </label>
+        <div class="settings-grid">
+          ${TARGET_FIELDS.map(field => `
+            <label class="settings-field">
+              <span class="settings-label">${field.label} (<span data-unit="${field.key}">%</span>)</span>
+              <input type="number" class="settings-select" data-target="${field.key}" min="0" max="100" step="1" />
+            </label>
+          `).join('')}
+        </div>
+        <span class="settings-hint settings-error" data-role="targets-error"></span>
+        <span class="settings-hint">Used for time in range, day badges, waveform bands and glucose-driven sound design.</span>
+      </section>
+    `;
+  }
+
+  /**
+   * Show the current targets in the fields (in the display unit) and select the matching preset
+   */
+  private syncTargetFields(): void {
+    const unit = getDisplayUnit();
+    TARGET_FIELDS.forEach(({ key, glucose }) => {
+      const input = this.container.querySelector(`[data-target="${key}"]`) as HTMLInputElement | null;
+      if (input) {
+        if (glucose) {
+          input.max = String(Math.round(toDisplayUnit(600)));
+          input.step = unit === 'mmol/L' ? '0.1' : '1';
+        }
+        input.value = glucose ? formatGlucose(this.glucoseTargets[key]) : String(this.glucoseTargets[key]);
+      }
+      const unitLabel = this.container.querySelector(`[data-unit="${key}"]`);
+      if (unitLabel && glucose) unitLabel.textContent = unit;
+    });
+
+    const presetSelect = this.container.querySelector('[data-setting="targetPreset"]') as HTMLSelectElement | null;
+    if (presetSelect) {
+      presetSelect.querySelectorAll('option').forEach(option => {
+        const preset = GLUCOSE_TARGET_PRESETS[parseInt(option.value)];
+        if (preset) option.textContent = presetLabel(preset);
+      });
+      const match = GLUCOSE_TARGET_PRESETS.findIndex(preset =>
+        TARGET_FIELDS.every(({ key }) => preset.targets[key] === this.glucoseTargets[key])
+      );
+      presetSelect.value = match >= 0 ? String(match) : '';
+    }
+  }
+
+  /**
+   * Apply targets from the fields (invalid combinations are reported, not applied)
+   */
+  private updateGlucoseTargets(targets: GlucoseTargets): void {
+    const error = this.container.querySelector('[data-role="targets-error"]');
+    if (!isValidGlucoseTargets(targets)) {
+      if (error) error.textContent = 'Thresholds must increase: hypo < target low < target high < hyper, and TIR fair < good.';
+      return;
+    }
+    if (error) error.textContent = '';
+
+    this.glucoseTargets = { ...targets };
+    this.syncTargetFields();
+    this.targetsChangeCallbacks.forEach(cb => cb({ ...targets }));
+  }
+
+  /**
+   * Set up event listeners
+   */
+  private setupEventListeners(): void {
+    this.container.querySelector('.modal-close')?.addEventListener('click', () => this.close());
+
+    // Clicking the backdrop closes the dialog
+    this.container.addEventListener('click', (e) => {
+      if (e.target === this.container) this.close();
+    });
+
+    const timezoneSelect = this.container.querySelector('[data-setting="timezone"]') as HTMLSelectElement | null;
+    if (timezoneSelect) {
+      timezoneSelect.value = this.importOptions.timezone;
+      timezoneSelect.addEventListener('change', () => {
+        this.updateImportOptions({ timezone: timezoneSelect.value });
+      });
+    }
+
+    const readingMergeSelect = this.container.querySelector('[data-setting="readingMerge"]') as HTMLSelectElement | null;
+    if (readingMergeSelect) {
+      readingMergeSelect.value = this.importOptions.readingMerge;
+      readingMergeSelect.addEventListener('change', () => {
+        this.updateImportOptions({ readingMerge: readingMergeSelect.value as ReadingMergeStrategy });
+      });
+    }
+
+    const gapFillSelect = this.container.querySelector('[data-setting="gapFill"]') as HTMLSelectElement | null;
+    if (gapFillSelect) {
+      gapFillSelect.value = this.importOptions.gapFill;
+      gapFillSelect.addEventListener('change', () => {
+        this.updateImportOptions({ gapFill: gapFillSelect.value as GapFillPolicy });
+      });
+    }
+
+    const dayStartSelect = this.container.querySelector('[data-setting="dayStartHour"]') as HTMLSelectElement | null;
+    if (dayStartSelect) {
+      dayStartSelect.value = String(this.importOptions.dayStartHour);
+      dayStartSelect.addEventListener('change', () => {
+        this.updateImportOptions({ dayStartHour: parseInt(dayStartSelect.value) });
+      });
+    }
+
+    const sleepStartSelect = this.container.querySelector('[data-setting="sleepStart"]') as HTMLSelectElement | null;
+    const sleepEndSelect = this.container.querySelector('[data-setting="sleepEnd"]') as HTMLSelectElement | null;
+    if (sleepStartSelect && sleepEndSelect) {
+      const sleep = this.importOptions.sleepWindow;
+      sleepStartSelect.value = sleep ? String(sleep.start) : 'off';
+      sleepEndSelect.value = String((sleep ?? DEFAULT_SLEEP_WINDOW).end);
+      sleepEndSelect.disabled = !sleep;
+
+      const update = (): void => {
+        const off = sleepStartSelect.value === 'off';
+        sleepEndSelect.disabled = off;
+        const start = parseInt(sleepStartSelect.value);
+        const end = parseInt(sleepEndSelect.value);
+        // A window can't end when it starts; fall back to the default end
+        this.updateImportOptions({
+          sleepWindow: off ? null : { start, end: end === start ? (start + DEFAULT_SLEEP_WINDOW.end) % (24 * 60) : end },
+        });
+      };
+      sleepStartSelect.addEventListener('change', update);
+      sleepEndSelect.addEventListener('change', update);
+    }
+
+    const postMealSelect = this.container.querySelector('[data-setting="postMealHours"]') as HTMLSelectElement | null;
+    if (postMealSelect) {
+      postMealSelect.value = String(this.importOptions.postMealHours);
+      postMealSelect.addEventListener('change', () => {
+        this.updateImportOptions({ postMealHours: parseInt(postMealSelect.value) });
+      });
+    }
+
+    const displayUnitSelect = this.container.querySelector('[data-setting="displayUnit"]') as HTMLSelectElement | null;
+    if (displayUnitSelect) {
+      displayUnitSelect.value = this.displayUnit;
+      displayUnitSelect.addEventListener('change', () => {
+        this.displayUnit = displayUnitSelect.value as DisplayUnitPreference;
+        this.displayUnitChangeCallbacks.forEach(cb => cb(this.displayUnit));
+      });
+    }
+
+    this.syncTargetFields();
+    const presetSelect = this.container.querySelector('[data-setting="targetPreset"]') as HTMLSelectElement | null;
+    presetSelect?.addEventListener('change', () => {
+      const preset = GLUCOSE_TARGET_PRESETS[parseInt(presetSelect.value)];
+      if (preset) this.updateGlucoseTargets(preset.targets);
+    });
+    this.container.querySelectorAll<HTMLInputElement>('[data-target]').forEach(input => {
+      input.addEventListener('change', () => {
+        const key = input.dataset.target as keyof GlucoseTargets;
+        const field = TARGET_FIELDS.find(f => f.key === key);
+        const value = parseFloat(input.value);
+        // Glucose thresholds are kept in whole mg/dL whatever unit they were entered in
+        const targets = { ...this.glucoseTargets, [key]: field?.glucose ? Math.round(fromDisplayUnit(value)) : value };
+        this.updateGlucoseTargets(targets);
+      });
+    });
+  }
+
+  /**
+   * Apply a partial import options change and notify listeners
+   */
+  private updateImportOptions(changes: Partial<ImportOptions>): void {
+    this.importOptions = { ...this.importOptions, ...changes };
+    const options = { ...this.importOptions };
+    this.importChangeCallbacks.forEach(cb => cb(options));
+  }
+
+  /**
+   * Close on Escape while open
+   */
+  private handleKeyDown(e: KeyboardEvent): void {
+    if (e.key === 'Escape') this.close();
+  }
+
+  /**
+   * Show the dialog
+   */
+  open(): void {
+    this.container.classList.add('open');
+    document.addEventListener('keydown', this.handleKeyDown);
+  }
+
+  /**
+   * Hide the dialog
+   */
+  close(): void {
+    this.container.classList.remove('open');
+    document.removeEventListener('keydown', this.handleKeyDown);
+  }
+
+  /**
+   * Check if the dialog is visible
+   */
+  isOpen(): boolean {
+    return this.container.classList.contains('open');
+  }
+
+  /**
+   * Get the current import options
+   */
+  getImportOptions(): ImportOptions {
+    return { ...this.importOptions };
+  }
+
+  /**
+   * Show the current list of column mapping profiles
+   */
+  setMappingProfiles(profiles: ColumnMappingProfile[]): void {
+    this.mappingProfiles = [...profiles];
+    this.renderMappingSection();
+  }
+
+  /**
+   * Register callback for deleting a mapping profile
+   */
+  onMappingProfileDelete(callback: (name: string) => void): void {
+    this.profileDeleteCallbacks.push(callback);
+  }
+
+  /**
+   * Register callback for glucose target changes
+   */
+  onGlucoseTargetsChange(callback: (targets: GlucoseTargets) => void): void {
+    this.targetsChangeCallbacks.push(callback);
+  }
+
+  /**
+   * Re-show the target fields after the display unit changed
+   */
+  refreshDisplayUnit(): void {
+    this.syncTargetFields();
+  }
+
+  /**
+   * Register callback for display unit preference changes
+   */
+  onDisplayUnitChange(callback: (preference: DisplayUnitPreference) => void): void {
+    this.displayUnitChangeCallbacks.push(callback);
+  }
+
+  /**
+   * Register callback for import option changes
+   */
+  onImportOptionsChange(callback: (options: ImportOptions) => void): void {
+    this.importChangeCallbacks.push(callback);
+  }
+}
+
+// Factory function
+export function createSettingsPanel(
+  containerId: string,
+  importOptions: ImportOptions,
+  glucoseTargets: GlucoseTargets,
+  displayUnit: DisplayUnitPreference
+): SettingsPanel {
+  const panel = new SettingsPanel(containerId, importOptions, glucoseTargets, displayUnit);
+  panel.render();
+  return panel;
+}
@@ -3,7 +3,8 @@
 // Uses layered canvases for optimal performance
 
 import type { DailyGlucoseData } from '../types';
-import { getWaveformForDisplay } from '../synthesis/wavetable';
+import { getWaveformForDisplay, getGapSpansForDisplay, getTargetBandsForDisplay } from '../synthesis/wavetable';
+import { formatGlucoseWithUnit } from '../parser/display-unit';
 
 // Debounce utility
 function debounce<T extends (...args: any[]) => void>(fn: T, ms: number): T {
@@ -150,10 +151,65 @@ export class WaveformDisplay {
       return;
     }
 
+    this.drawTargetBands(this.waveCtx, width, height);
+    this.drawGaps(this.waveCtx, width, height);
     this.drawWaveform(this.waveCtx, width, height);
     this.drawInfo(this.waveCtx, width, height);
   }
   
+  /**
+   * Shade the target range and mark the hypo/hyper thresholds that fall inside the day's range
+   */
+  private drawTargetBands(ctx: CanvasRenderingContext2D, width: number, height: number): void {
+    if (!this.currentData) return;
+    const bands = getTargetBandsForDisplay(this.currentData);
+    if (!bands) return;
+
+    const padding = 20;
+    const toY = (value: number) => padding + ((1 - value) / 2) * (height - padding * 2);
+
+    const top = Math.max(0, toY(bands.targetHigh));
+    const bottom = Math.min(height, toY(bands.targetLow));
+    if (bottom > top) {
+      ctx.fillStyle = 'rgba(143, 188, 143, 0.08)';
+      ctx.fillRect(0, top, width, bottom - top);
+    }
+
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 4]);
+    for (const [value, color] of [[bands.hyper, 'rgba(201, 112, 100, 0.5)'], [bands.hypo, 'rgba(107, 154, 196, 0.5)']] as const) {
+      const y = toY(value);
+      if (y < 0 || y > height) continue;
+      ctx.strokeStyle = color;
+      ctx.beginPath();
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y);
+      ctx.stroke();
+    }
+    ctx.setLineDash([]);
+  }
+
+  /**
+   * Shade spans with no sensor readings (the curve there comes from the gap fill policy)
+   */
+  private drawGaps(ctx: CanvasRenderingContext2D, width: number, height: number): void {
+    if (!this.currentData) return;
+
+    ctx.fillStyle = 'rgba(107, 93, 82, 0.2)';
+    ctx.strokeStyle = 'rgba(107, 93, 82, 0.5)';
+    ctx.lineWidth = 1;
+    ctx.setLineDash([2, 3]);
+
+    for (const gap of getGapSpansForDisplay(this.currentData)) {
+      const x = gap.from * width;
+      const w = (gap.to - gap.from) * width;
+      ctx.fillRect(x, 0, w, height);
+      ctx.strokeRect(x, 0, w, height);
+    }
+
+    ctx.setLineDash([]);
+  }
+  
   /**
    * Draw the playhead only (animated layer)
    */
@@ -417,17 +473,20 @@ export class WaveformDisplay {
     ctx.textAlign = 'right';
     ctx.fillText('24:00', width - 8, height - 6);
 
-    // Glucose range labels with subtle background
+    // Glucose range labels with subtle background, sized to the longer label
+    const maxLabel = formatGlucoseWithUnit(stats.max);
+    const minLabel = formatGlucoseWithUnit(stats.min);
+    const labelWidth = Math.max(66, Math.ceil(Math.max(ctx.measureText(maxLabel).width, ctx.measureText(minLabel).width)) + 8);
     ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
-    ctx.fillRect(width - 70, 4, 66, 16);
-    ctx.fillRect(width - 70, height - 24, 66, 16);
+    ctx.fillRect(width - labelWidth - 4, 4, labelWidth, 16);
+    ctx.fillRect(width - labelWidth - 4, height - 24, labelWidth, 16);
     
     ctx.fillStyle = 'rgba(232, 168, 124, 0.8)';
     ctx.textAlign = 'right';
-    ctx.fillText(`${Math.round(stats.max)} mg/dL`, width - 8, 15);
+    ctx.fillText(maxLabel, width - 8, 15);
     
     ctx.fillStyle = 'rgba(107, 154, 196, 0.8)';
-    ctx.fillText(`${Math.round(stats.min)} mg/dL`, width - 8, height - 11);
+    ctx.fillText(minLabel, width - 8, height - 11);
   }
 
   /**
@@ -0,0 +1,157 @@
+// Import Worker Client
+// Main-thread wrapper around the import worker with progress and cancellation
+
+import type { ParsedLibreViewData } from '../types';
+import type { ImportOptions } from '../parser/import-options';
+import type { CSVPreview } from '../parser/column-mapping';
+import { getGlucoseTargets } from '../parser/glucose-targets';
+import type { ImportRequest, ImportResponse, ImportSource, ImportStage } from './import-messages';
+
+export type { ImportSource, ImportStage } from './import-messages';
+
+export type ImportProgressHandler = (stage: ImportStage, fraction: number) => void;
+
+/**
+ * Thrown (as a rejection) when an import is cancelled
+ */
+export class ImportCancelledError extends Error {
+  constructor() {
+    super('Import cancelled');
+    this.name = 'ImportCancelledError';
+  }
+}
+
+/**
+ * Thrown (as a rejection) when a source's CSV layout wasn't recognized
+ * Set a mapping on sources[sourceIndex] and import again
+ */
+export class ImportMappingRequiredError extends Error {
+  readonly sourceIndex: number;
+  readonly preview: CSVPreview;
+
+  constructor(sourceIndex: number, preview: CSVPreview) {
+    super('Column mapping required');
+    this.name = 'ImportMappingRequiredError';
+    this.sourceIndex = sourceIndex;
+    this.preview = preview;
+  }
+}
+
+interface PendingJob {
+  jobId: number;
+  resolve: (data: ParsedLibreViewData) => void;
+  reject: (error: Error) => void;
+  onProgress?: ImportProgressHandler;
+}
+
+export class ImportWorkerClient {
+  private worker: Worker | null = null;
+  private pending: PendingJob | null = null;
+  private nextJobId = 1;
+
+  /**
+   * Parse one or more files, merge them and generate wavetables in the worker
+   * With a base dataset (restored from the library), the files are added to its records and all of it
+   * is regrouped. Only one import runs at a time; starting a new one cancels the previous.
+   */
+  importFiles(
+    sources: ImportSource[],
+    options: ImportOptions,
+    onProgress?: ImportProgressHandler,
+    base?: ParsedLibreViewData
+  ): Promise<ParsedLibreViewData> {
+    this.cancel();
+
+    const jobId = this.nextJobId++;
+    const worker = this.getWorker();
+
+    return new Promise((resolve, reject) => {
+      this.pending = { jobId, resolve, reject, onProgress };
+      // The worker has its own copy of the targets module; send the ones in effect
+      const request: ImportRequest = { jobId, sources, base, options, targets: getGlucoseTargets() };
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Check if an import is currently running
+   */
+  get busy(): boolean {
+    return this.pending !== null;
+  }
+
+  /**
+   * Cancel the running import
+   * The parser is synchronous inside the worker, so the worker is terminated and respawned lazily
+   */
+  cancel(): void {
+    if (!this.pending) return;
+
+    const job = this.pending;
+    this.pending = null;
+    this.worker?.terminate();
+    this.worker = null;
+    job.reject(new ImportCancelledError());
+  }
+
+  /**
+   * Get or lazily create the worker
+   */
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./import-worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (e: MessageEvent<ImportResponse>) => this.handleMessage(e.data);
+      this.worker.onerror = (e: ErrorEvent) => {
+        const job = this.pending;
+        this.pending = null;
+        job?.reject(new Error(e.message || 'Import worker failed'));
+      };
+    }
+    return this.worker;
+  }
+
+  /**
+   * Route worker messages to the pending job (stale job ids are ignored)
+   */
+  private handleMessage(message: ImportResponse): void {
+    const job = this.pending;
+    if (!job || job.jobId !== message.jobId) return;
+
+    switch (message.type) {
+      case 'progress':
+        job.onProgress?.(message.stage, message.fraction);
+        break;
+      case 'result':
+        this.pending = null;
+        job.resolve(message.data);
+        break;
+      case 'mapping-required':
+        this.pending = null;
+        job.reject(new ImportMappingRequiredError(message.sourceIndex, message.preview));
+        break;
+      case 'error':
+        this.pending = null;
+        job.reject(new Error(message.message));
+        break;
+    }
+  }
+
+  /**
+   * Dispose of the worker
+   */
+  dispose(): void {
+    this.cancel();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+}
+
+// Singleton instance
+let clientInstance: ImportWorkerClient | null = null;
+
+export function getImportWorker(): ImportWorkerClient {
+  if (!clientInstance) {
+    clientInstance = new ImportWorkerClient();
+  }
+  return clientInstance;
+}
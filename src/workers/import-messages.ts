@@ -0,0 +1,30 @@
+// Import Worker Messages
+// Message shapes exchanged between the main thread and the import worker
+
+import type { ParsedLibreViewData } from '../types';
+import type { ImportOptions } from '../parser/import-options';
+import type { GlucoseTargets } from '../parser/glucose-targets';
+import type { ColumnMapping, CSVPreview } from '../parser/column-mapping';
+
+export type ImportStage = 'reading' | 'parsing' | 'wavetables';
+
+// One export to import; several are merged into one dataset
+export interface ImportSource {
+  file: Blob;
+  fileName: string;
+  mapping?: ColumnMapping; // set once the user has mapped an unrecognized CSV
+}
+
+export interface ImportRequest {
+  jobId: number;
+  sources: ImportSource[];   // files to parse; added to base when it is set
+  base?: ParsedLibreViewData; // a library dataset, regrouped from its records
+  options: ImportOptions;
+  targets: GlucoseTargets; // time in range is computed in the worker
+}
+
+export type ImportResponse =
+  | { type: 'progress'; jobId: number; stage: ImportStage; fraction: number }
+  | { type: 'result'; jobId: number; data: ParsedLibreViewData }
+  | { type: 'mapping-required'; jobId: number; sourceIndex: number; preview: CSVPreview }
+  | { type: 'error'; jobId: number; message: string };
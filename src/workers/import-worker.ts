@@ -0,0 +1,83 @@
+/// <reference lib="webworker" />
+// Import Worker
+// Runs parsing, day grouping, stats and wavetable generation off the main thread
+// (also regrouping of a library dataset, which has no files to parse)
+
+import type { ParsedLibreViewData } from '../types';
+import { parseGlucoseBlob } from '../parser/importers';
+import { mergeDatasets, regroupDataset } from '../parser/dataset-merge';
+import { ColumnMappingRequiredError } from '../parser/column-mapping';
+import { setGlucoseTargets } from '../parser/glucose-targets';
+import { generateAllWavetables } from '../synthesis/wavetable';
+import type { ImportRequest, ImportResponse, ImportStage } from './import-messages';
+
+// Minimum progress change between messages (avoid flooding the main thread)
+const PROGRESS_STEP = 0.01;
+
+// The project compiles against the DOM lib; inside this module self is the worker's global scope
+declare const self: DedicatedWorkerGlobalScope;
+
+self.onmessage = async (e: MessageEvent<ImportRequest>) => {
+  const { jobId, sources, base, options, targets } = e.data;
+  setGlucoseTargets(targets);
+
+  let lastReported = -1;
+  const post = (message: ImportResponse, transfer: Transferable[] = []) => {
+    self.postMessage(message, transfer);
+  };
+  const reporter = (stage: ImportStage) => (fraction: number) => {
+    if (fraction - lastReported < PROGRESS_STEP && fraction < 1) return;
+    lastReported = fraction;
+    post({ type: 'progress', jobId, stage, fraction });
+  };
+
+  try {
+    // Files are read one at a time so only one file's text is held at once (streamed formats hold less)
+    const datasets: ParsedLibreViewData[] = [];
+    for (let i = 0; i < sources.length; i++) {
+      const { file, fileName, mapping } = sources[i];
+
+      lastReported = -1;
+      reporter('reading')(i / sources.length);
+
+      lastReported = -1;
+      const reportParsing = reporter('parsing');
+      try {
+        datasets.push(await parseGlucoseBlob(file, fileName, options, (fraction) => {
+          reportParsing((i + fraction) / sources.length);
+        }, mapping));
+      } catch (error) {
+        // The main thread asks the user for a column mapping, then imports again
+        if (error instanceof ColumnMappingRequiredError) {
+          post({ type: 'mapping-required', jobId, sourceIndex: i, preview: error.preview });
+          return;
+        }
+        throw error;
+      }
+    }
+
+    const data = base
+      ? regroupDataset(base, options, datasets)
+      : mergeDatasets(datasets, options);
+
+    lastReported = -1;
+    generateAllWavetables(data.days, options.gapFill, reporter('wavetables'));
+    generateAllWavetables(data.windows, options.gapFill);
+
+    // Hand wavetable buffers over instead of copying them
+    const buffers = new Set<ArrayBuffer>();
+    for (const source of [...data.days.values(), ...data.windows.values()]) {
+      if (source.wavetable) {
+        buffers.add(source.wavetable.buffer as ArrayBuffer);
+      }
+    }
+
+    post({ type: 'result', jobId, data }, Array.from(buffers));
+  } catch (error) {
+    post({
+      type: 'error',
+      jobId,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};